@@ -1,4 +1,4 @@
-import { FrameBle } from 'frame-ble';
+import { FrameBle, FrameDisplay } from 'frame-ble';
 
 export async function run() {
   const frameBle = new FrameBle();
@@ -16,8 +16,7 @@ export async function run() {
   await frameBle.sendBreakSignal({showMe: true});
 
   // Clear the Frame display
-  var luaCommand = "frame.display.text('', 1, 1);frame.display.show();print(0)";
-  await frameBle.sendLua(luaCommand, {showMe: true, awaitPrint: true});
+  await new FrameDisplay(frameBle).clear();
 
   // Wait for a couple of seconds
   await new Promise(resolve => setTimeout(resolve, 2000));
@@ -22,7 +22,7 @@ export async function run() {
 
   // we can call the function(s) loaded from the file
   const myFibNum = 20
-  const response = await frameBle.sendLua(`print(fibonacci(${myFibNum}))`, {awaitPrint: true})
+  const response = await frameBle.call('fibonacci', [myFibNum])
   console.log(`Answer was: ${response}`)
 
   // Disconnect from Frame
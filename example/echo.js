@@ -43,7 +43,17 @@ export async function run() {
   console.log(`Fibonacci number ${myFibNum} is: ${fibAnswer}`);
 
   // If lines of code will be too long to fit in a single bluetooth packet(~240 bytes, depending)
-  // then other strategies are needed, including sending Lua files to Frame and then calling their functions.
+  // then evalLua() transfers them in chunks, runs them and returns everything they printed.
+  const longResponse = await frameBle.evalLua(
+    "local squares = {}\n" +
+    "for i = 1, 10 do\n" +
+    "  squares[#squares + 1] = i * i\n" +
+    "end\n" +
+    "print(table.concat(squares, ','))\n" +
+    "print('sum of squares: ' .. 385)\n");
+  console.log("evalLua output: ", longResponse);
+
+  // Functions that are used repeatedly are better sent as Lua files to Frame and then called.
   // see custom_lua_functions.js for examples.
   // For structured message-passing of images, audio etc. between Frame and host, consider the frame-msg package.
 
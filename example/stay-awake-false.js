@@ -10,10 +10,9 @@ export async function run() {
   await frameBle.sendBreakSignal();
 
   // Restore normal behavior that Frame turns off when placed in the charging cradle (and puts it to sleep now)
-  await frameBle.sendLua("frame.stay_awake(false);print(0)", {awaitPrint: true})
-  await frameBle.sendLua("frame.sleep()")
+  await frameBle.setStayAwake(false);
   console.log("Frame will switch off when placed in the charging cradle, and will be put to sleep now (tap to wake)")
 
-  // Disconnect from Frame
-  await frameBle.disconnect();
+  // Deep sleep closes the connection
+  await frameBle.sleep({ deep: true });
 };
@@ -10,7 +10,7 @@ export async function run() {
   await frameBle.sendBreakSignal();
 
   // Keep Frame awake even in charging cradle (for development)
-  await frameBle.sendLua("frame.stay_awake(true);print(0)", {awaitPrint: true})
+  await frameBle.setStayAwake(true);
 
   // Disconnect from Frame
   await frameBle.disconnect();
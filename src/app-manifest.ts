@@ -0,0 +1,62 @@
+import { crc32 } from './checksum';
+
+/**
+ * The recorded state of one file deployed by `FrameBle.deployApp`.
+ */
+export interface ManifestEntry {
+    /** The length of the file content in bytes (UTF-8). */
+    length: number;
+    /** The CRC-32 of the file content. */
+    crc32: number;
+}
+
+/**
+ * What `FrameBle.deployApp` did with one file.
+ * 'added' and 'updated' files were uploaded, 'deleted' files were removed from the device,
+ * and 'unchanged' files were skipped because the manifest shows the same content.
+ */
+export type DeployFileStatus = 'added' | 'updated' | 'unchanged' | 'deleted';
+
+/**
+ * A per-file summary returned by `FrameBle.deployApp`.
+ */
+export interface DeployResult {
+    /** What happened to each file: the app's files in path order, followed by the deleted files. */
+    files: { path: string; status: DeployFileStatus }[];
+    /** True if any file was uploaded or deleted. */
+    changed: boolean;
+}
+
+/**
+ * Computes the manifest entry for a file's content.
+ */
+export function manifestEntry(content: string): ManifestEntry {
+    const bytes = new TextEncoder().encode(content);
+    return { length: bytes.byteLength, crc32: crc32(bytes) };
+}
+
+/**
+ * Formats a manifest as one "path<TAB>length<TAB>crc32" line per file, the CRC-32 in hex.
+ */
+export function formatManifest(manifest: Map<string, ManifestEntry>): string {
+    return [...manifest]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([path, entry]) => `${path}\t${entry.length}\t${entry.crc32.toString(16)}\n`)
+        .join("");
+}
+
+/**
+ * Parses a manifest written by `formatManifest`, skipping malformed lines
+ * (so a corrupted manifest at worst causes files to be uploaded again).
+ */
+export function parseManifest(text: string): Map<string, ManifestEntry> {
+    const manifest = new Map<string, ManifestEntry>();
+    for (const line of text.split("\n")) {
+        const [path, length, crc] = line.split("\t");
+        if (!path || length === undefined || crc === undefined) continue;
+        const entry = { length: parseInt(length, 10), crc32: parseInt(crc, 16) };
+        if (isNaN(entry.length) || isNaN(entry.crc32)) continue;
+        manifest.set(path, entry);
+    }
+    return manifest;
+}
@@ -0,0 +1,102 @@
+/**
+ * Options for `FrameBle.startAudio`.
+ */
+export interface AudioOptions {
+    /** The sample rate in Hz: 8000 or 16000. Defaults to 8000. */
+    sampleRate?: 8000 | 16000;
+    /** The bits per sample sent by the device: 8 or 16. Samples are delivered as 16-bit either way. Defaults to 16. */
+    bitDepth?: 8 | 16;
+}
+
+/** First byte of a data packet carrying microphone samples. */
+export const AUDIO_CHUNK = 0x05;
+/** First byte of the data packet sent once the microphone has stopped. */
+export const AUDIO_END = 0x06;
+
+/**
+ * Lua installed on the device by `FrameBle.startAudio`, as the global `_mic`.
+ * `_mic.run(sample_rate, bit_depth)` starts the microphone and sends its samples in data packets starting
+ * with `AUDIO_CHUNK` until interrupted by a break signal; it then stops the microphone and sends `AUDIO_END`.
+ * The REPL is busy while it runs.
+ */
+export const AUDIO_LUA = `_mic={}
+local function send(data)
+    while not pcall(frame.bluetooth.send,data) do frame.sleep(0.001) end
+end
+local function stream(n)
+    while true do
+        local s=frame.microphone.read(n)
+        if s==nil then return end
+        if #s>0 then send(string.char(${AUDIO_CHUNK})..s) else frame.sleep(0.001) end
+    end
+end
+function _mic.run(sample_rate,bit_depth)
+    frame.microphone.start{sample_rate=sample_rate,bit_depth=bit_depth}
+    local n=frame.bluetooth.max_length()-1
+    pcall(stream,n-n%2)
+    frame.microphone.stop()
+    send(string.char(${AUDIO_END}))
+end
+`;
+
+/**
+ * Decodes the samples of an audio packet: signed 8-bit samples, or signed 16-bit little-endian samples.
+ * 8-bit samples are scaled to the 16-bit range.
+ * @param data The packet payload after its `AUDIO_CHUNK` byte.
+ * @param bitDepth The bits per sample the microphone was started with.
+ * @returns The samples.
+ */
+export function decodePcm(data: Uint8Array, bitDepth: 8 | 16): Int16Array {
+    if (bitDepth === 8) {
+        const samples = new Int16Array(data.byteLength);
+        for (let i = 0; i < data.byteLength; i++) {
+            samples[i] = ((data[i] << 24) >> 24) * 256;
+        }
+        return samples;
+    }
+    const samples = new Int16Array(data.byteLength >> 1);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = view.getInt16(i * 2, true);
+    }
+    return samples;
+}
+
+/**
+ * Wraps 16-bit mono PCM samples, such as those from `FrameBle.startAudio`, into a WAV file.
+ * @param samples The samples, as one array or as the frames received in order.
+ * @param sampleRate The sample rate in Hz.
+ * @returns The bytes of the WAV file.
+ */
+export function encodeWav(samples: Int16Array | Int16Array[], sampleRate: number): Uint8Array {
+    const frames = Array.isArray(samples) ? samples : [samples];
+    const dataSize = frames.reduce((total, frame) => total + frame.length * 2, 0);
+    const wav = new Uint8Array(44 + dataSize);
+    const view = new DataView(wav.buffer);
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) wav[offset + i] = text.charCodeAt(i);
+    };
+
+    writeString(0, "RIFF");
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, "WAVE");
+    writeString(12, "fmt ");
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // byte rate
+    view.setUint16(32, 2, true); // block align
+    view.setUint16(34, 16, true); // bits per sample
+    writeString(36, "data");
+    view.setUint32(40, dataSize, true);
+
+    let offset = 44;
+    for (const frame of frames) {
+        for (const sample of frame) {
+            view.setInt16(offset, sample, true);
+            offset += 2;
+        }
+    }
+    return wav;
+}
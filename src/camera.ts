@@ -0,0 +1,65 @@
+/**
+ * The JPEG quality presets of the Frame camera.
+ */
+export type CameraQuality = 'VERY_LOW' | 'LOW' | 'MEDIUM' | 'HIGH' | 'VERY_HIGH';
+
+/** The quality presets, from lowest to highest. */
+export const CAMERA_QUALITIES: readonly CameraQuality[] = ['VERY_LOW', 'LOW', 'MEDIUM', 'HIGH', 'VERY_HIGH'];
+
+/**
+ * Options for `FrameBle.captureImage`.
+ */
+export interface CaptureOptions {
+    /** The JPEG quality preset. Defaults to "VERY_HIGH". */
+    quality?: CameraQuality;
+    /** The width and height of the square image in pixels, an even number from 100 to 720. Defaults to 512. */
+    resolution?: number;
+    /** If true, runs the camera's auto exposure and gain for about a second before capturing. Defaults to true. */
+    autoExposure?: boolean;
+    /** The timeout in milliseconds for the whole capture, from when the capture command is sent. Defaults to 15000ms. */
+    timeout?: number;
+}
+
+/** First byte of a data packet carrying a part of the image, with more to follow. */
+export const IMAGE_CHUNK = 0x07;
+/** First byte of the data packet carrying the last part of the image. */
+export const IMAGE_FINAL = 0x08;
+/** First byte of a data packet reporting that the capture failed, followed by the Lua error message. */
+export const IMAGE_ERROR = 0x09;
+
+/**
+ * Lua installed on the device by `FrameBle.captureImage`, as the global `_cam`.
+ * `_cam.capture(resolution, quality, auto_exposure)` captures a photo and sends the JPEG in data packets
+ * that start with `IMAGE_CHUNK`, the last one with `IMAGE_FINAL`; if anything fails, it sends the error
+ * message in a packet starting with `IMAGE_ERROR` instead. Sends are retried while the outgoing buffer is full.
+ */
+export const CAMERA_LUA = `_cam={}
+local function send(data)
+    while not pcall(frame.bluetooth.send,data) do frame.sleep(0.005) end
+end
+local function capture(resolution,quality,auto_exposure)
+    if auto_exposure then
+        for _=1,10 do
+            frame.camera.auto{}
+            frame.sleep(0.1)
+        end
+    end
+    frame.camera.capture{resolution=resolution,quality=quality}
+    while not frame.camera.image_ready() do frame.sleep(0.005) end
+    local n=frame.bluetooth.max_length()-1
+    local chunk=frame.camera.read(n) or ''
+    while true do
+        local next_chunk=frame.camera.read(n)
+        if next_chunk==nil then
+            send(string.char(${IMAGE_FINAL})..chunk)
+            return
+        end
+        send(string.char(${IMAGE_CHUNK})..chunk)
+        chunk=next_chunk
+    end
+end
+function _cam.capture(resolution,quality,auto_exposure)
+    local ok,e=pcall(capture,resolution,quality,auto_exposure)
+    if not ok then send(string.char(${IMAGE_ERROR})..string.sub(tostring(e),1,frame.bluetooth.max_length()-1)) end
+end
+`;
@@ -0,0 +1,24 @@
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let c = i;
+        for (let k = 0; k < 8; k++) {
+            c = (c & 1) ? (c >>> 1) ^ 0xEDB88320 : c >>> 1;
+        }
+        table[i] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Computes the CRC-32 (IEEE 802.3, as used by zlib) of the given bytes.
+ * @param data The bytes to checksum.
+ * @returns The checksum as an unsigned 32-bit integer.
+ */
+export function crc32(data: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.byteLength; i++) {
+        crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
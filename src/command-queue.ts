@@ -0,0 +1,177 @@
+import { FrameTimeoutError } from './errors';
+
+/**
+ * The kind of response a queued command waits for.
+ */
+export type ResponseKind = 'print' | 'data';
+
+/**
+ * A command waiting in (or at the head of) the queue.
+ */
+interface QueuedCommand {
+    kind: ResponseKind;
+    send: () => Promise<void>;
+    source?: string;
+    accepts?: (value: string | Uint8Array) => boolean;
+    timeout: number;
+    priority: number;
+    resolve: (value: string | Uint8Array) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Serializes commands that await a response from the device, so each print or data
+ * response is matched to the caller whose command produced it.
+ *
+ * Only one command is in flight at a time: it is sent when it reaches the head of the queue,
+ * and the next command is sent once its response arrives or its timeout elapses.
+ * Commands with a higher priority are sent first; equal priorities are sent in order.
+ */
+export class CommandQueue {
+    private readonly queue: QueuedCommand[] = [];
+    private readonly held: QueuedCommand[] = [];
+    private active?: QueuedCommand;
+    private activeTimeoutId?: NodeJS.Timeout;
+
+    /**
+     * Queues a command and waits for its response.
+     * @param kind The kind of response the command waits for.
+     * @param send Transmits the command; called when the command reaches the head of the queue.
+     * @param options.timeout The timeout in milliseconds to wait for the response, measured from when the command is sent.
+     * @param options.priority Commands with a higher priority are sent first.
+     * @param options.source The Lua code the command sends, if any, so device errors can be attributed to it.
+     * @param options.accepts Recognises the command's response, so other responses of the same kind
+     * (e.g. prints from a running app) are not mistaken for it. By default any response of the right kind is accepted.
+     * @returns A promise that resolves with the response.
+     * @throws Error if sending fails, if no response arrives in time, if the device reports an error, or if the queue is cleared.
+     */
+    public enqueue<T>(
+        kind: ResponseKind,
+        send: () => Promise<void>,
+        options: { timeout: number; priority: number; source?: string; accepts?: (value: string | Uint8Array) => boolean }
+    ): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const { timeout, priority, source, accepts } = options;
+            this.insert({ kind, send, source, accepts, timeout, priority, resolve: value => resolve(value as T), reject });
+            this.pump();
+        });
+    }
+
+    /**
+     * Rejects the command in flight (whose response may have been lost) and sets the queued
+     * commands aside until `release` is called. Commands enqueued in the meantime are sent as usual.
+     * @param error The error to reject the command in flight with.
+     */
+    public hold(error: Error): void {
+        const active = this.active;
+        if (this.activeTimeoutId) clearTimeout(this.activeTimeoutId);
+        this.activeTimeoutId = undefined;
+        this.active = undefined;
+        this.held.push(...this.queue.splice(0));
+        if (active) active.reject(error);
+    }
+
+    /**
+     * Returns the commands set aside by `hold` to the queue, ahead of commands of the same priority.
+     */
+    public release(): void {
+        for (const command of this.held.splice(0).reverse()) {
+            // insert before all commands of the same or lower priority
+            const index = this.queue.findIndex(queued => queued.priority <= command.priority);
+            if (index < 0) {
+                this.queue.push(command);
+            } else {
+                this.queue.splice(index, 0, command);
+            }
+        }
+        this.pump();
+    }
+
+    /**
+     * Offers a response from the device to the command in flight.
+     * @param kind The kind of response received.
+     * @param value The response.
+     * @returns True if the response was consumed by the command in flight.
+     */
+    public handleResponse(kind: ResponseKind, value: string | Uint8Array): boolean {
+        const command = this.active;
+        if (!command || command.kind !== kind) return false;
+        if (command.accepts && !command.accepts(value)) return false;
+        this.finish();
+        command.resolve(value);
+        return true;
+    }
+
+    /**
+     * @returns The Lua code sent by the command in flight, or undefined if none is in flight or it didn't send Lua.
+     */
+    public activeSource(): string | undefined {
+        return this.active?.source;
+    }
+
+    /**
+     * Rejects the command in flight with an error reported by the device, then sends the next command.
+     * @param error The error to reject with.
+     * @returns True if a command was in flight.
+     */
+    public rejectActive(error: Error): boolean {
+        const command = this.active;
+        if (!command) return false;
+        this.finish();
+        command.reject(error);
+        return true;
+    }
+
+    /**
+     * Rejects the command in flight and every queued or held command.
+     * @param error The error to reject with.
+     */
+    public clear(error: Error): void {
+        const commands = this.active ? [this.active, ...this.queue, ...this.held] : [...this.queue, ...this.held];
+        this.queue.length = 0;
+        this.held.length = 0;
+        if (this.activeTimeoutId) clearTimeout(this.activeTimeoutId);
+        this.activeTimeoutId = undefined;
+        this.active = undefined;
+        for (const command of commands) {
+            command.reject(error);
+        }
+    }
+
+    private insert(command: QueuedCommand) {
+        // insert after all commands of the same or higher priority
+        const index = this.queue.findIndex(queued => queued.priority < command.priority);
+        if (index < 0) {
+            this.queue.push(command);
+        } else {
+            this.queue.splice(index, 0, command);
+        }
+    }
+
+    private finish() {
+        if (this.activeTimeoutId) clearTimeout(this.activeTimeoutId);
+        this.activeTimeoutId = undefined;
+        this.active = undefined;
+        this.pump();
+    }
+
+    private pump() {
+        if (this.active) return;
+        const command = this.queue.shift();
+        if (!command) return;
+        this.active = command;
+
+        command.send().then(() => {
+            if (this.active !== command) return; // already answered or cleared
+            this.activeTimeoutId = setTimeout(() => {
+                if (this.active !== command) return;
+                this.finish();
+                command.reject(new FrameTimeoutError(`Device didn't respond with ${command.kind === 'print' ? 'a print' : 'data'} within ${command.timeout}ms.`, command.timeout));
+            }, command.timeout);
+        }, (error) => {
+            if (this.active !== command) return;
+            this.finish();
+            command.reject(error);
+        });
+    }
+}
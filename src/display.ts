@@ -0,0 +1,186 @@
+import type { FrameBle } from './frame-ble';
+import { toLuaLiteral } from './lua-rpc';
+import { FRAME_COLOR_NAMES, FrameColorName, FrameSprite, RgbColor, RgbaImage, SPRITE_RENDERER_LUA, encodeSprite, encodeSpriteBand } from './sprite';
+
+/**
+ * The firmware's default palette as Y, Cb and Cr values, in palette order.
+ */
+const DEFAULT_PALETTE_YCBCR: [number, number, number][] = [
+    [0, 4, 4], [15, 4, 4], [7, 4, 4], [5, 3, 6], [9, 3, 5], [2, 2, 5], [4, 2, 5], [9, 2, 5],
+    [13, 2, 4], [4, 4, 3], [6, 2, 3], [10, 1, 3], [1, 5, 2], [4, 5, 2], [8, 5, 2], [13, 4, 3],
+];
+
+// The most sprite bytes sent in one message, so the device never has to hold more than this at once
+const MAX_BAND_BYTES = 8192;
+
+/**
+ * Draws on the Frame display: text, palette changes and images.
+ *
+ * Text and palette changes are sent as `frame.display` Lua commands. Images are converted to sprites on
+ * the host (see `encodeSprite`) and sent as messages to a renderer installed on the device on first use,
+ * which replaces the data receive callback, so don't draw images while an app relies on its own callback.
+ * Drawing happens in a buffer that `show()` (or the `show` option) puts on the display.
+ */
+export class FrameDisplay {
+    private static readonly HOOK_RENDERER_LUA = "if _spr then frame.bluetooth.receive_callback(_spr.receive);print(1) else print(0) end";
+
+    /**
+     * Creates a display helper.
+     * @param frameBle The connected `FrameBle` to draw through.
+     */
+    constructor(private readonly frameBle: FrameBle) {}
+
+    /**
+     * Draws text, one line per line of `text`.
+     * @param text The text to draw.
+     * @param options Optional configuration for the text.
+     * @param options.x The left edge in pixels, from 1 to 640. Defaults to 1.
+     * @param options.y The top edge of the first line in pixels, from 1 to 400. Defaults to 1.
+     * @param options.color The palette entry to draw with. Defaults to "WHITE".
+     * @param options.spacing The spacing between characters in pixels. Defaults to 4.
+     * @param options.lineHeight The distance between the tops of consecutive lines in pixels. Defaults to 60.
+     * @param options.show If true, shows the display afterwards. Defaults to true.
+     * @throws FrameLuaError if the device rejects the command.
+     */
+    public async text(
+        text: string,
+        options: {
+            x?: number;
+            y?: number;
+            color?: FrameColorName;
+            spacing?: number;
+            lineHeight?: number;
+            show?: boolean;
+        } = {}
+    ): Promise<void> {
+        const { x = 1, y = 1, color = 'WHITE', spacing = 4, lineHeight = 60, show = true } = options;
+        FrameDisplay.checkColorName(color);
+        const commands = text.split("\n").map((line, index) =>
+            `frame.display.text(${toLuaLiteral(line)},${x},${y + index * lineHeight},{color='${color}',spacing=${spacing}})`);
+        if (show) commands.push("frame.display.show()");
+        await this.run(commands);
+    }
+
+    /**
+     * Clears the display.
+     */
+    public async clear(): Promise<void> {
+        await this.run(["frame.display.text('',1,1)", "frame.display.show()"]);
+    }
+
+    /**
+     * Puts everything drawn since the last `show()` on the display.
+     */
+    public async show(): Promise<void> {
+        await this.run(["frame.display.show()"]);
+    }
+
+    /**
+     * Changes the colour of a palette entry. Anything drawn with the entry changes colour too.
+     * @param color The palette entry to change.
+     * @param rgb The new colour.
+     */
+    public async setColor(color: FrameColorName, rgb: RgbColor): Promise<void> {
+        FrameDisplay.checkColorName(color);
+        await this.run([`frame.display.assign_color('${color}',${rgb.map(Math.round).join(",")})`]);
+    }
+
+    /**
+     * Sets every palette entry back to the firmware's default colour.
+     */
+    public async resetPalette(): Promise<void> {
+        const commands = DEFAULT_PALETTE_YCBCR.map(([y, cb, cr], index) => `frame.display.assign_color_ycbcr(${index + 1},${y},${cb},${cr})`);
+        await this.run(commands);
+    }
+
+    /**
+     * Converts an RGBA image to a sprite and draws it (see `encodeSprite` and `drawSprite`).
+     * @param image The image, e.g. the `ImageData` of a canvas.
+     * @param options Optional configuration, as for `drawSprite`, plus:
+     * @param options.bitsPerPixel The bit depth of the sprite: 1, 2 or 4. Defaults to 4.
+     */
+    public async showImage(
+        image: RgbaImage,
+        options: {
+            x?: number;
+            y?: number;
+            bitsPerPixel?: 1 | 2 | 4;
+            paletteOffset?: number;
+            show?: boolean;
+            msgCode?: number;
+            windowSize?: number;
+        } = {}
+    ): Promise<void> {
+        const { bitsPerPixel = 4, ...drawOptions } = options;
+        await this.drawSprite(encodeSprite(image, { bitsPerPixel }), drawOptions);
+    }
+
+    /**
+     * Draws a sprite, assigning its palette to consecutive palette entries.
+     * Large sprites are sent as several messages of horizontal bands.
+     * @param sprite The sprite to draw.
+     * @param options Optional configuration for drawing.
+     * @param options.x The left edge in pixels, from 1 to 640. Defaults to 1.
+     * @param options.y The top edge in pixels, from 1 to 400. Defaults to 1.
+     * @param options.paletteOffset The palette entry that pixel value 0 maps to; the sprite's palette is assigned to the
+     * entries after it. Defaults to 0, which keeps value 0 transparent.
+     * @param options.show If true, shows the display afterwards. Defaults to true.
+     * @param options.msgCode The message code used to send the sprite. Defaults to 0x20.
+     * @param options.windowSize The `windowSize` for `sendMessage`. Defaults to 1.
+     * @throws Error if the palette doesn't fit after the palette offset.
+     */
+    public async drawSprite(
+        sprite: FrameSprite,
+        options: {
+            x?: number;
+            y?: number;
+            paletteOffset?: number;
+            show?: boolean;
+            msgCode?: number;
+            windowSize?: number;
+        } = {}
+    ): Promise<void> {
+        const { x = 1, y = 1, paletteOffset = 0, show = true, msgCode = 0x20, windowSize = 1 } = options;
+        if (paletteOffset < 0 || paletteOffset + sprite.palette.length >= FRAME_COLOR_NAMES.length) {
+            throw new Error(`A palette of ${sprite.palette.length} colours doesn't fit after palette offset ${paletteOffset}.`);
+        }
+
+        await this.installRenderer();
+        const rowBytes = sprite.width * sprite.bitsPerPixel / 8;
+        const bandRows = Math.max(1, Math.floor(MAX_BAND_BYTES / rowBytes));
+        for (let firstRow = 0; firstRow < sprite.height; firstRow += bandRows) {
+            const rowCount = Math.min(bandRows, sprite.height - firstRow);
+            const lastBand = firstRow + rowCount >= sprite.height;
+            const band = encodeSpriteBand(sprite, firstRow, rowCount, { x, y, paletteOffset, show: show && lastBand });
+            await this.frameBle.sendMessage(msgCode, band, { windowSize });
+        }
+    }
+
+    /**
+     * Makes the sprite renderer the data receive callback, installing it first if needed.
+     */
+    private async installRenderer() {
+        const installed = await this.frameBle.sendLua(FrameDisplay.HOOK_RENDERER_LUA, { awaitPrint: true });
+        if (installed !== "1") {
+            await this.frameBle.evalLua(SPRITE_RENDERER_LUA);
+        }
+    }
+
+    /**
+     * Runs display commands as one Lua chunk, waiting until the device has run them.
+     */
+    private async run(commands: string[]) {
+        const lua = commands.join(";") + ";print(0)";
+        if (new TextEncoder().encode(lua).byteLength <= this.frameBle.getMaxPayload(true)) {
+            await this.frameBle.sendLua(lua, { awaitPrint: true });
+        } else {
+            await this.frameBle.evalLua(lua);
+        }
+    }
+
+    private static checkColorName(color: string) {
+        if (!(FRAME_COLOR_NAMES as readonly string[]).includes(color)) {
+            throw new Error(`Unknown palette entry: ${color}`);
+        }
+    }
+}
@@ -0,0 +1,188 @@
+/**
+ * Error raised when Lua code run on the Frame device fails to compile or raises an error.
+ */
+export class FrameLuaError extends Error {
+    /**
+     * Creates a FrameLuaError.
+     * @param luaMessage The error message reported by the device's Lua runtime.
+     * @param chunk The Lua code that failed, if known.
+     * @param line The line within the chunk where the error was raised, if reported.
+     */
+    constructor(
+        public readonly luaMessage: string,
+        public readonly chunk?: string,
+        public readonly line?: number,
+    ) {
+        super(`Lua error on device: ${luaMessage}`);
+        this.name = 'FrameLuaError';
+    }
+}
+
+/**
+ * A Lua error as printed by the device's Lua runtime, e.g. `[string "x.y=1"]:1: attempt to index a nil value`.
+ */
+export interface LuaErrorOutput {
+    /** The chunk name reported by Lua, e.g. the (possibly truncated) first line of the chunk, or undefined for `stdin`. */
+    chunkName?: string;
+    /** The line where the error was raised. */
+    line: number;
+    /** The error message after the location. */
+    message: string;
+}
+
+/**
+ * Recognises printed output that is a Lua error with a location, as reported for chunks
+ * loaded from a string (`[string "..."]:1: ...`) or from the REPL (`stdin:1: ...`).
+ * @param text A line printed by the device.
+ * @returns The parsed error, or undefined if the text isn't a Lua error.
+ */
+export function parseLuaErrorOutput(text: string): LuaErrorOutput | undefined {
+    const match = text.match(/^(?:\[string "(.*)"\]|stdin):(\d+): (.*)$/s);
+    if (!match) return undefined;
+    return { chunkName: match[1], line: parseInt(match[2]), message: match[3] };
+}
+
+/**
+ * Error raised when a file uploaded to the Frame device doesn't match what was sent.
+ */
+export class FrameVerificationError extends Error {
+    /**
+     * Creates a FrameVerificationError.
+     * @param path The path of the file on the device.
+     * @param expected The length and CRC-32 of the data that was sent.
+     * @param actual The length and CRC-32 of the file on the device.
+     */
+    constructor(
+        public readonly path: string,
+        public readonly expected: { length: number; crc32: number },
+        public readonly actual: { length: number; crc32: number },
+    ) {
+        super(`Verification of ${path} failed: sent ${expected.length} bytes (CRC-32 ${expected.crc32.toString(16)}), device has ${actual.length} bytes (CRC-32 ${actual.crc32.toString(16)})`);
+        this.name = 'FrameVerificationError';
+    }
+}
+
+/**
+ * Error raised when a file operation on the Frame device fails, e.g. because the file doesn't exist.
+ */
+export class FrameFileError extends Error {
+    /**
+     * Creates a FrameFileError.
+     * @param message What failed, e.g. "Failed to delete main.lua".
+     * @param path The path the operation was applied to.
+     * @param deviceMessage The reason reported by the device.
+     */
+    constructor(
+        message: string,
+        public readonly path: string,
+        public readonly deviceMessage: string,
+    ) {
+        super(`${message}: ${deviceMessage}`);
+        this.name = 'FrameFileError';
+    }
+}
+
+/**
+ * Error raised when a photo can't be captured or doesn't arrive complete.
+ */
+export class FrameCaptureError extends Error {
+    /**
+     * Creates a FrameCaptureError.
+     * @param message Why the capture failed.
+     * @param partialImage The bytes of the image received before the failure, possibly empty.
+     */
+    constructor(
+        message: string,
+        public readonly partialImage: Uint8Array,
+    ) {
+        super(message);
+        this.name = 'FrameCaptureError';
+    }
+}
+
+/**
+ * Error raised when a command or transfer gets no response from the device in time.
+ */
+export class FrameTimeoutError extends Error {
+    /**
+     * Creates a FrameTimeoutError.
+     * @param message What the device didn't do in time.
+     * @param timeoutMs The timeout that elapsed, in milliseconds.
+     */
+    constructor(
+        message: string,
+        public readonly timeoutMs: number,
+    ) {
+        super(message);
+        this.name = 'FrameTimeoutError';
+    }
+}
+
+/**
+ * Error raised when a connection to the Frame device can't be established.
+ * The subclasses tell apart the reasons a UI may want to explain differently; other failures, such as
+ * Web Bluetooth being unavailable, use this class itself.
+ */
+export class FrameConnectionError extends Error {
+    /**
+     * Creates a FrameConnectionError.
+     * @param message Why the connection failed.
+     * @param cause The underlying error, e.g. the `DOMException` thrown by Web Bluetooth.
+     */
+    constructor(message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'FrameConnectionError';
+    }
+}
+
+/**
+ * Error raised when the user closes the device chooser without picking a device.
+ */
+export class FrameCancelledError extends FrameConnectionError {
+    constructor(message = "Device selection was cancelled.", cause?: unknown) {
+        super(message, cause);
+        this.name = 'FrameCancelledError';
+    }
+}
+
+/**
+ * Error raised when the selected device doesn't offer the Frame service or one of its characteristics,
+ * e.g. because it isn't a Frame or its firmware is too old.
+ */
+export class FrameServiceNotFoundError extends FrameConnectionError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'FrameServiceNotFoundError';
+    }
+}
+
+/**
+ * Error raised when the link opened but the device didn't complete the Frame handshake
+ * (the break signal and the MTU query), e.g. because a running app keeps the REPL busy.
+ */
+export class FrameHandshakeError extends FrameConnectionError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+        this.name = 'FrameHandshakeError';
+    }
+}
+
+/**
+ * Error raised when a Bluetooth GATT operation fails while opening the link.
+ */
+export class FrameGattError extends FrameConnectionError {
+    /**
+     * Creates a FrameGattError.
+     * @param message The failure reported by the Bluetooth stack.
+     * @param retryable Whether the failure is usually transient, so another attempt may succeed.
+     * @param cause The underlying error.
+     */
+    constructor(
+        message: string,
+        public readonly retryable: boolean,
+        cause?: unknown,
+    ) {
+        super(message, cause);
+        this.name = 'FrameGattError';
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * A listener for an event whose arguments are given as a tuple type.
+ */
+export type FrameEventListener<Args extends unknown[]> = (...args: Args) => void | Promise<void>;
+
+/**
+ * Minimal typed event emitter with add/remove listener semantics.
+ * `Events` maps each event name to the tuple of arguments its listeners receive.
+ *
+ * A listener that throws (or returns a rejected promise) doesn't stop the other listeners;
+ * the failure is passed to `onListenerError`.
+ */
+export class TypedEventEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+    // listeners of different events take different arguments; emit calls each with the arguments of its event
+    private readonly listeners = new Map<keyof Events, Set<FrameEventListener<never>>>();
+
+    /**
+     * Adds a listener for an event. Adding the same listener twice has no effect.
+     * @param event The event name.
+     * @param listener The function to call when the event is emitted.
+     * @returns A function that removes the listener.
+     */
+    public on<K extends keyof Events>(event: K, listener: FrameEventListener<Events[K]>): () => void {
+        let listeners = this.listeners.get(event);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(event, listeners);
+        }
+        listeners.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Adds a listener that is removed after the next time the event is emitted.
+     * @param event The event name.
+     * @param listener The function to call when the event is emitted.
+     * @returns A function that removes the listener before it is called.
+     */
+    public once<K extends keyof Events>(event: K, listener: FrameEventListener<Events[K]>): () => void {
+        const wrapper: FrameEventListener<Events[K]> = (...args) => {
+            this.off(event, wrapper);
+            return listener(...args);
+        };
+        return this.on(event, wrapper);
+    }
+
+    /**
+     * Removes a listener added with `on`.
+     * @param event The event name.
+     * @param listener The listener to remove.
+     */
+    public off<K extends keyof Events>(event: K, listener: FrameEventListener<Events[K]>): void {
+        this.listeners.get(event)?.delete(listener);
+    }
+
+    /**
+     * @param event The event name.
+     * @returns The number of listeners currently added for the event.
+     */
+    public listenerCount<K extends keyof Events>(event: K): number {
+        return this.listeners.get(event)?.size ?? 0;
+    }
+
+    /**
+     * Calls every listener of an event with the given arguments.
+     * @param event The event name.
+     * @param args The arguments passed to the listeners.
+     */
+    protected emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+        const listeners = this.listeners.get(event);
+        if (!listeners) return;
+        for (const listener of [...listeners]) {
+            try {
+                const result = (listener as FrameEventListener<Events[K]>)(...args);
+                if (result instanceof Promise) {
+                    result.catch(error => this.onListenerError(error, event));
+                }
+            } catch (error) {
+                this.onListenerError(error, event);
+            }
+        }
+    }
+
+    /**
+     * Called when a listener throws or returns a rejected promise. Logs the error by default.
+     * @param error The error thrown by the listener.
+     * @param _event The event the listener was called for.
+     */
+    protected onListenerError(error: unknown, _event: keyof Events): void {
+        console.error(error);
+    }
+}
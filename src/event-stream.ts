@@ -0,0 +1,62 @@
+/**
+ * Creates an async iterator that yields values pushed by an event source until it ends.
+ * Values pushed while nobody is waiting are buffered.
+ * @param subscribe Starts listening; calls `push` for each value and `end` when the stream is over,
+ * and returns a function that stops listening.
+ * @returns An async iterable iterator; breaking out of a `for await` loop stops listening.
+ */
+export function eventStream<T>(
+    subscribe: (push: (value: T) => void, end: () => void) => () => void
+): AsyncIterableIterator<T> {
+    const buffer: T[] = [];
+    const waiting: ((result: IteratorResult<T>) => void)[] = [];
+    let done = false;
+    let unsubscribe = () => {};
+
+    const finish = () => {
+        if (done) return;
+        done = true;
+        unsubscribe();
+        for (const resolve of waiting.splice(0)) {
+            resolve({ value: undefined, done: true });
+        }
+    };
+
+    const stopListening = subscribe(
+        value => {
+            if (done) return;
+            const resolve = waiting.shift();
+            if (resolve) {
+                resolve({ value, done: false });
+            } else {
+                buffer.push(value);
+            }
+        },
+        finish
+    );
+    if (done) {
+        stopListening();
+    } else {
+        unsubscribe = stopListening;
+    }
+
+    return {
+        next(): Promise<IteratorResult<T>> {
+            if (buffer.length > 0) {
+                return Promise.resolve({ value: buffer.shift() as T, done: false });
+            }
+            if (done) {
+                return Promise.resolve({ value: undefined, done: true });
+            }
+            return new Promise(resolve => waiting.push(resolve));
+        },
+        return(): Promise<IteratorResult<T>> {
+            buffer.length = 0;
+            finish();
+            return Promise.resolve({ value: undefined, done: true });
+        },
+        [Symbol.asyncIterator]() {
+            return this;
+        },
+    };
+}
@@ -1,190 +1,650 @@
+import { DeployResult, ManifestEntry, formatManifest, manifestEntry, parseManifest } from './app-manifest';
+import { AUDIO_CHUNK, AUDIO_END, AUDIO_LUA, AudioOptions, decodePcm } from './audio';
+import { CAMERA_LUA, CAMERA_QUALITIES, CaptureOptions, IMAGE_CHUNK, IMAGE_ERROR, IMAGE_FINAL } from './camera';
+import { CommandQueue } from './command-queue';
+import { encodeCompressedMessage } from './message-receivers';
+import { crc32 } from './checksum';
+import { FrameCaptureError, FrameFileError, FrameHandshakeError, FrameLuaError, FrameTimeoutError, FrameVerificationError, LuaErrorOutput, parseLuaErrorOutput } from './errors';
+import { TypedEventEmitter } from './event-emitter';
+import { eventStream } from './event-stream';
+import { compressLz4Frame } from './lz4';
+import { FrameLogger, createConsoleLogger } from './logger';
+import { LuaMinifyOptions, MinifiedLua, minifyLua } from './lua-minify';
+import { LuaSerializable, RPC_HELPER_LUA, toLuaLiteral } from './lua-rpc';
+import { EVENTS_LUA, IMU_EVENT, ImuReading, ImuStreamOptions, TAP_EVENT, TapEvent, decodeImuReading } from './imu';
+import { MessageAssembler } from './message-assembler';
+import { FrameDeviceInfo, FrameTelemetry, TelemetryMonitor, TelemetryMonitorOptions } from './telemetry';
+import { TraceRecorder } from './trace';
+import { FrameTransport } from './transport';
+import { WebBluetoothTransport } from './web-bluetooth-transport';
+
+/**
+ * An entry in a directory on the Frame device, as returned by `FrameBle.listDirectory`.
+ */
+export interface FrameFileEntry {
+    /** The name of the file or directory, without its parent path. */
+    name: string;
+    /** The size of the file in bytes (0 for directories). */
+    size: number;
+    /** True if the entry is a directory. */
+    isDirectory: boolean;
+}
+
+/**
+ * Options for automatic reconnection, enabled through `FrameBle.connect`.
+ */
+export interface AutoReconnectOptions {
+    /** The maximum number of reconnection attempts after the link is lost. Defaults to 10. */
+    maxAttempts?: number;
+    /** The delay in milliseconds before the first attempt, doubled after each failed attempt. Defaults to 500ms. */
+    initialDelayMs?: number;
+    /** The upper limit in milliseconds for the delay between attempts. Defaults to 10000ms. */
+    maxDelayMs?: number;
+}
+
+/**
+ * The state of the connection to the device, as returned by `FrameBle.getConnectionState`:
+ * - `idle`: no connection has been made, or the last attempt failed and the device was forgotten
+ * - `requesting`: waiting for the user to pick a device
+ * - `connecting`: opening the Bluetooth link
+ * - `discovering`: looking up the Frame service and characteristics
+ * - `handshaking`: interrupting any running script, querying the MTU and running the setup steps
+ * - `ready`: commands can be sent
+ * - `disconnecting`: `disconnect()` is closing the link
+ * - `disconnected`: the link was closed or lost; an automatic reconnection may be under way
+ */
+export type ConnectionState = 'idle' | 'requesting' | 'connecting' | 'discovering' | 'handshaking' | 'ready' | 'disconnecting' | 'disconnected';
+
+/**
+ * Why the link to the device was closed, as reported by the `disconnect` event:
+ * - `requested`: `disconnect()` was called
+ * - `sleep`: the device was put into deep sleep with `sleep({ deep: true })` or `scheduleShutdown`
+ * - `linkLost`: the link dropped for any other reason, e.g. the device went out of range
+ */
+export type DisconnectReason = 'requested' | 'sleep' | 'linkLost';
+
+/**
+ * The outcome of one window size measured by `FrameBle.benchmarkThroughput`.
+ */
+export interface ThroughputResult {
+    /** The window size the test message was sent with. */
+    windowSize: number;
+    /** The size of the test message in bytes. */
+    bytes: number;
+    /** The time taken to send the test message and receive the last acknowledgement. */
+    durationMs: number;
+    /** The payload throughput achieved. */
+    bytesPerSecond: number;
+}
+
+/**
+ * A step run after every successful connection, including automatic reconnections,
+ * e.g. to upload and require the app's Lua code.
+ */
+export type SetupStep = (frameBle: FrameBle) => Promise<void>;
+
+/**
+ * The events emitted by `FrameBle`, mapped to the arguments their listeners receive.
+ */
+export interface FrameBleEvents {
+    /** A print (string) response from the device. Lua errors are reported through `luaError` instead. */
+    print: [text: string];
+    /** A data packet from the device, without its 0x01 prefix. */
+    data: [data: Uint8Array];
+    /** A complete multi-packet message from the device, reassembled using the `sendMessage` framing. */
+    message: [msgCode: number, payload: Uint8Array];
+    /** The connection (or an automatic reconnection) to the device is ready. */
+    connect: [deviceName: string];
+    /** The connection state changed. */
+    stateChange: [state: ConnectionState, previous: ConnectionState];
+    /** The link to the device was closed or lost. Only a lost link is restored by automatic reconnection. */
+    disconnect: [reason: DisconnectReason];
+    /** An automatic reconnection attempt is about to start after the given delay. */
+    reconnecting: [attempt: number, delayMs: number];
+    /** An error that has no caller to reject, e.g. a failed message transfer or a failing listener. */
+    error: [error: Error];
+    /**
+     * A Lua error printed by the device that no pending command was waiting for, e.g. from a command sent
+     * without `awaitPrint` or from a running app. Reported through `error` if nobody listens to it.
+     */
+    luaError: [error: FrameLuaError];
+    /** A reading taken by the telemetry monitor. */
+    telemetry: [telemetry: FrameTelemetry];
+    /** The telemetry monitor found the battery at or below its low level. Emitted again only after the level has risen above it. */
+    batteryLow: [level: number];
+    /** The telemetry monitor found Lua memory usage grown by its threshold over the lowest usage seen since the last report. */
+    memoryGrowth: [usageKb: number, baselineKb: number];
+    /** One or more taps in quick succession, while `onTap` has subscribers. */
+    tap: [event: TapEvent];
+}
+
+/**
+ * A pending `receiveMessage` call.
+ */
+interface MessageWaiter {
+    resolve: (payload: Uint8Array) => void;
+    reject: (error: Error) => void;
+    timeoutId: NodeJS.Timeout;
+}
+
 /**
  * Class for managing a connection to and transferring data to and from
  * the Brilliant Labs Frame device over Bluetooth LE using WebBluetooth
+ * (or any other `FrameTransport`)
  */
-export class FrameBle {
-    private device?: BluetoothDevice;
-    private server?: BluetoothRemoteGATTServer;
-    private txCharacteristic?: BluetoothRemoteGATTCharacteristic;
-    private rxCharacteristic?: BluetoothRemoteGATTCharacteristic;
-
-    private readonly SERVICE_UUID = "7a230001-5475-a6a4-654c-8431f6ad49c4";
-    private readonly TX_CHARACTERISTIC_UUID = "7a230002-5475-a6a4-654c-8431f6ad49c4";
-    private readonly RX_CHARACTERISTIC_UUID = "7a230003-5475-a6a4-654c-8431f6ad49c4";
+export class FrameBle extends TypedEventEmitter<FrameBleEvents> {
+    private readonly transport: FrameTransport;
+    private readonly logger: FrameLogger;
+    private traceRecorder?: TraceRecorder;
 
     private maxPayload = 60; // will be set after connection
-    private awaitingPrintResponse = false;
-    private awaitingDataResponse = false;
-    private printTimeoutId?: NodeJS.Timeout;
-    private printResponsePromise?: Promise<string>;
-    private printResolve?: (value: string) => void;
-    // Updated promise and resolve types for data responses
-    private dataResponsePromise?: Promise<Uint8Array>;
-    private dataResolve?: (value: Uint8Array) => void;
-
-    // Updated handler types
+    // Commands awaiting a print or data response, sent one at a time
+    private readonly commandQueue = new CommandQueue();
+    // The most recently sent Lua commands, used to find the chunk an unsolicited Lua error refers to
+    private readonly recentLua: string[] = [];
+
+    // Listeners registered through the single-handler setters
     private onDataResponse?: (data: Uint8Array) => void | Promise<void>;
     private onPrintResponse?: (data: string) => void | Promise<void>;
     private onDisconnectHandler?: () => void;
 
+    // Reassembly of multi-packet messages from the device, keyed by message code
+    private readonly messageAssembler: MessageAssembler;
+    private readonly messageHandlers = new Map<number, (payload: Uint8Array) => void | Promise<void>>();
+    private readonly messageWaiters = new Map<number, MessageWaiter[]>();
+    private readonly messageStreams = new Map<number, number>(); // open `messages(msgCode)` streams per code
+
+    // Session restoration after the link is lost
+    private readonly setupSteps: SetupStep[] = [];
+    private autoReconnect?: Required<AutoReconnectOptions>;
+    private reconnection?: Promise<void>;
+    private restoringSession = false; // true while a reconnection re-runs the handshake and setup steps
+    private sessionReady = false;
+    private disconnectRequested = false;
+    private connectionState: ConnectionState = 'idle';
+
+    // Power management
+    private sleepRequested = false; // true from sending a deep sleep until the link closes
+    private lastDisconnectReason?: DisconnectReason;
+    private shutdownTimeoutId?: NodeJS.Timeout;
+
+    private telemetryMonitor?: TelemetryMonitor;
+    // The source line of each line of the files uploaded minified, keyed by path without a leading "/"
+    private readonly sourceLineMaps = new Map<string, number[]>();
+    // Prefix of the prints that answer queryDevice, so they can't be confused with prints from a running app
+    private static readonly QUERY_TAG = "~q:";
+    private rpcCallCount = 0;
+    private audioSession?: { finish: () => void; ended: Promise<void> };
+    // Tap subscriptions: taps arriving within the multi-tap window of each other are reported as one event
+    private static readonly MULTI_TAP_WINDOW_MS = 300;
+    private tapSubscriptions = 0;
+    private removeTapListener?: () => void;
+    private pendingTaps = 0;
+    private tapTimeoutId?: NodeJS.Timeout;
+    // Acknowledges each packet of a message with the number of bytes received so far and discards the data
+    private static readonly BENCHMARK_RECEIVER_LUA =
+        "local n,s={},{}\n" +
+        "frame.bluetooth.receive_callback(function(d)\n" +
+        "local c=string.byte(d,1)\n" +
+        "if n[c]==nil or n[c]>=s[c] then s[c]=(string.byte(d,2)<<8)|string.byte(d,3);n[c]=#d-3 else n[c]=n[c]+#d-1 end\n" +
+        "frame.bluetooth.send(string.char(c,n[c]>>8,n[c]&255))\n" +
+        "end)\n";
+
     /**
      * Creates an instance of FrameBle.
-     * The constructor is currently empty as most setup occurs during the connect method.
+     * Most setup occurs during the connect method.
+     * @param options Optional configuration for the instance.
+     * @param options.transport The transport used to reach the device. Defaults to a new `WebBluetoothTransport`.
+     * @param options.messageStallTimeout Time in milliseconds without a packet after which a partially received message is discarded. Defaults to 5000ms.
+     * @param options.logger Where connection progress, errors and `showMe` dumps are logged; it is passed on to the transport too.
+     * Defaults to a console logger at level 'info'; use `createConsoleLogger('silent')` to silence it.
      */
-    constructor() {}
+    constructor(options: { transport?: FrameTransport; messageStallTimeout?: number; logger?: FrameLogger } = {}) {
+        super();
+        const { transport = new WebBluetoothTransport(), messageStallTimeout = 5000, logger = createConsoleLogger() } = options;
+        this.transport = transport;
+        this.logger = logger;
+        this.transport.setLogger?.(logger);
+        this.messageAssembler = new MessageAssembler(this.handleMessage, this.handleMessageError, messageStallTimeout);
+        this.transport.setNotificationHandler(this.notificationHandler);
+        this.transport.setDisconnectHandler(this.handleDisconnect);
+    }
 
     /**
      * Sets or updates the handler for asynchronous data responses from the device.
+     * The handler is a `data` event listener that replaces the one set by the previous call.
      * @param handler The function to call when data (as Uint8Array) is received.
      * Pass undefined to remove the current handler.
      */
     public setDataResponseHandler(handler: ((data: Uint8Array) => void | Promise<void>) | undefined): void {
+        if (this.onDataResponse) this.off('data', this.onDataResponse);
         this.onDataResponse = handler;
+        if (handler) this.on('data', handler);
     }
 
     /**
      * Sets or updates the handler for asynchronous print (string) responses from the device.
+     * The handler is a `print` event listener that replaces the one set by the previous call.
      * @param handler The function to call when a print string is received.
      * Pass undefined to remove the current handler.
      */
     public setPrintResponseHandler(handler: ((data: string) => void | Promise<void>) | undefined): void {
+        if (this.onPrintResponse) this.off('print', this.onPrintResponse);
         this.onPrintResponse = handler;
+        if (handler) this.on('print', handler);
     }
 
     /**
      * Sets or updates the handler for disconnection events.
+     * The handler is a `disconnect` event listener that replaces the one set by the previous call.
      * @param handler The function to call when the device disconnects.
      * Pass undefined to remove the current handler.
      */
     public setDisconnectHandler(handler: (() => void) | undefined): void {
+        if (this.onDisconnectHandler) this.off('disconnect', this.onDisconnectHandler);
         this.onDisconnectHandler = handler;
+        if (handler) this.on('disconnect', handler);
+    }
+
+    /**
+     * Streams print responses from the device until it disconnects.
+     * @returns An async iterable of printed strings, for use with `for await`.
+     */
+    public prints(): AsyncIterableIterator<string> {
+        return this.streamUntilDisconnect('print', text => text);
+    }
+
+    /**
+     * Streams data packets (without their 0x01 prefix) from the device until it disconnects.
+     * @returns An async iterable of data payloads, for use with `for await`.
+     */
+    public data(): AsyncIterableIterator<Uint8Array> {
+        return this.streamUntilDisconnect('data', data => data);
+    }
+
+    /**
+     * Streams complete multi-packet messages from the device until it disconnects.
+     * While a stream for a code is open, data packets starting with that code are reassembled as messages.
+     * @param msgCode If given, only messages with this code are yielded. Without it, the stream yields the messages
+     * reassembled for codes that have a handler, a `receiveMessage` call or a stream of their own.
+     * @returns An async iterable of `{msgCode, payload}` objects, for use with `for await`.
+     */
+    public messages(msgCode?: number): AsyncIterableIterator<{ msgCode: number; payload: Uint8Array }> {
+        return eventStream((push, end) => {
+            if (msgCode !== undefined) this.messageStreams.set(msgCode, (this.messageStreams.get(msgCode) ?? 0) + 1);
+            const removeMessage = this.on('message', (code, payload) => {
+                if (msgCode === undefined || code === msgCode) push({ msgCode: code, payload });
+            });
+            const removeDisconnect = this.on('disconnect', end);
+            return () => {
+                removeMessage();
+                removeDisconnect();
+                if (msgCode === undefined) return;
+                const streams = (this.messageStreams.get(msgCode) ?? 1) - 1;
+                if (streams > 0) this.messageStreams.set(msgCode, streams);
+                else this.messageStreams.delete(msgCode);
+            };
+        });
+    }
+
+    private streamUntilDisconnect<K extends 'print' | 'data', T>(event: K, map: (...args: FrameBleEvents[K]) => T): AsyncIterableIterator<T> {
+        return eventStream<T>((push, end) => {
+            const removeEvent = this.on(event, (...args) => push(map(...args)));
+            const removeDisconnect = this.on('disconnect', end);
+            return () => { removeEvent(); removeDisconnect(); };
+        });
+    }
+
+    /**
+     * Reports listener failures through the `error` event, or the logger if nobody listens to it.
+     */
+    protected onListenerError(error: unknown, event: keyof FrameBleEvents): void {
+        if (event !== 'error' && this.listenerCount('error') > 0) {
+            this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        } else {
+            this.logger.error(error);
+        }
+    }
+
+
+    /**
+     * Sets or updates the handler for complete multi-packet messages with the given code
+     * sent by the device using the same framing as `sendMessage`.
+     * @param msgCode The message code (0-255) to handle.
+     * @param handler The function to call with each reassembled payload.
+     * Pass undefined to remove the current handler.
+     */
+    public setMessageHandler(msgCode: number, handler: ((payload: Uint8Array) => void | Promise<void>) | undefined): void {
+        if (handler) {
+            this.messageHandlers.set(msgCode, handler);
+        } else {
+            this.messageHandlers.delete(msgCode);
+        }
+    }
+
+    /**
+     * Waits for the next complete multi-packet message with the given code from the device.
+     * Concurrent calls for the same code are resolved in order, one message each.
+     * @param msgCode The message code (0-255) to wait for.
+     * @param options Optional configuration for receiving the message.
+     * @param options.timeout The timeout in milliseconds to wait for the complete message. Defaults to 10000ms.
+     * @returns A promise that resolves with the reassembled payload.
+     * @throws Error if the message is not received in time, if the transfer fails (size mismatch or stall), or if the device disconnects.
+     */
+    public receiveMessage(msgCode: number, options: { timeout?: number } = {}): Promise<Uint8Array> {
+        const { timeout = 10000 } = options;
+        if (msgCode < 0 || msgCode > 255) {
+            return Promise.reject(new Error(`Message code must be 0-255, got ${msgCode}`));
+        }
+        return new Promise<Uint8Array>((resolve, reject) => {
+            const waiters = this.messageWaiters.get(msgCode) ?? [];
+            const waiter: MessageWaiter = {
+                resolve,
+                reject,
+                timeoutId: setTimeout(() => {
+                    this.removeMessageWaiter(msgCode, waiter);
+                    reject(new FrameTimeoutError(`Device didn't send message ${msgCode} within ${timeout}ms.`, timeout));
+                }, timeout),
+            };
+            waiters.push(waiter);
+            this.messageWaiters.set(msgCode, waiters);
+        });
+    }
+
+    private removeMessageWaiter(msgCode: number, waiter: MessageWaiter) {
+        const waiters = this.messageWaiters.get(msgCode);
+        if (!waiters) return;
+        const index = waiters.indexOf(waiter);
+        if (index >= 0) waiters.splice(index, 1);
+        if (waiters.length === 0) this.messageWaiters.delete(msgCode);
+    }
+
+    private isMessageCodeTracked(msgCode: number): boolean {
+        return this.messageHandlers.has(msgCode) || this.messageWaiters.has(msgCode) || this.messageStreams.has(msgCode) ||
+            this.messageAssembler.has(msgCode);
+    }
+
+    private handleMessage = (msgCode: number, payload: Uint8Array) => {
+        const waiter = this.messageWaiters.get(msgCode)?.[0];
+        if (waiter) {
+            clearTimeout(waiter.timeoutId);
+            this.removeMessageWaiter(msgCode, waiter);
+            waiter.resolve(payload);
+        }
+        const handler = this.messageHandlers.get(msgCode);
+        if (handler) {
+            try {
+                const result = handler(payload);
+                if (result instanceof Promise) {
+                    result.catch(error => this.onListenerError(error, 'message'));
+                }
+            } catch (error) {
+                this.onListenerError(error, 'message');
+            }
+        }
+        this.emit('message', msgCode, payload);
+    }
+
+    private handleMessageError = (msgCode: number, error: Error) => {
+        const waiter = this.messageWaiters.get(msgCode)?.[0];
+        if (waiter) {
+            clearTimeout(waiter.timeoutId);
+            this.removeMessageWaiter(msgCode, waiter);
+            waiter.reject(error);
+        } else {
+            this.reportError(error);
+        }
+    }
+
+    /**
+     * Reports an error that has no caller to reject through the `error` event, or the logger if nobody listens to it.
+     */
+    private reportError(error: Error) {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', error);
+        } else {
+            this.logger.error(error);
+        }
     }
 
+    /**
+     * Registers a step to run after every successful connection, in registration order.
+     * Steps also run after an automatic reconnection, before sends queued during the outage are released,
+     * so they can restore device state such as uploading and requiring `frame_app.lua`.
+     * @param step The async function to run; it receives this FrameBle instance.
+     */
+    public addSetupStep(step: SetupStep): void {
+        this.setupSteps.push(step);
+    }
+
+    /**
+     * Removes a step registered with `addSetupStep`.
+     * @param step The step to remove.
+     */
+    public removeSetupStep(step: SetupStep): void {
+        const index = this.setupSteps.indexOf(step);
+        if (index >= 0) this.setupSteps.splice(index, 1);
+    }
+
+    /**
+     * Checks if an automatic reconnection is in progress.
+     * @returns True if the link was lost and FrameBle is trying to restore it.
+     */
+    public isReconnecting(): boolean {
+        return !!this.reconnection;
+    }
+
+    private async runSetupSteps() {
+        for (const step of [...this.setupSteps]) {
+            await step(this);
+        }
+    }
+
+    /**
+     * Returns the automatic reconnection a send must wait for, so sends made while the link is down
+     * are delayed instead of failing. Sends made by the reconnection itself pass straight through.
+     * Callers only await when a promise is returned, so a send made while connected is queued synchronously.
+     */
+    private pendingReconnection(): Promise<void> | undefined {
+        return this.restoringSession ? undefined : this.reconnection;
+    }
+
+    private startReconnection() {
+        const reconnection = this.reconnect(this.autoReconnect!);
+        this.reconnection = reconnection;
+        reconnection.then(() => {
+            this.reconnection = undefined;
+            this.commandQueue.release();
+        }, (error) => {
+            this.reconnection = undefined;
+            this.logger.error("Automatic reconnection failed:", error);
+            const reconnectError = error instanceof Error ? error : new Error(String(error));
+            this.commandQueue.clear(reconnectError);
+            this.reportError(reconnectError);
+        });
+    }
+
+    private async reconnect(options: Required<AutoReconnectOptions>): Promise<void> {
+        const { maxAttempts, initialDelayMs, maxDelayMs } = options;
+        let delay = initialDelayMs;
+        let lastError: unknown;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            this.logger.info(`Reconnection attempt ${attempt} of ${maxAttempts} in ${delay / 1000}s...`);
+            this.emit('reconnecting', attempt, delay);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            if (this.disconnectRequested) {
+                throw new Error("Reconnection cancelled by disconnect().");
+            }
+            if (!(await this.transport.reselectDevice())) {
+                throw new Error("No remembered device to reconnect to.");
+            }
+
+            this.restoringSession = true;
+            try {
+                await this._attemptConnection();
+                await this.runSetupSteps();
+                if (this.tapSubscriptions > 0) await this.armEvents();
+                this.sessionReady = true;
+                this.setConnectionState('ready');
+                const deviceName = this.transport.getDeviceName() || "Unknown Device";
+                this.logger.info(`Reconnected to ${deviceName} on attempt ${attempt}.`);
+                this.emit('connect', deviceName);
+                return;
+            } catch (error) {
+                lastError = error;
+                this.logger.warn(`Reconnection attempt ${attempt} failed:`, error);
+                if (this.transport.isConnected()) {
+                    await this.transport.close();
+                }
+            } finally {
+                this.restoringSession = false;
+            }
+            delay = Math.min(delay * 2, maxDelayMs);
+        }
+        throw lastError ?? new Error(`Failed to reconnect after ${maxAttempts} attempts.`);
+    }
 
     private handleDisconnect = () => {
-        this.device = undefined;
-        this.server = undefined;
-        this.txCharacteristic = undefined;
-        this.rxCharacteristic = undefined;
-        if (this.onDisconnectHandler) {
-            this.onDisconnectHandler();
+        const reason: DisconnectReason = this.disconnectRequested ? 'requested' : this.sleepRequested ? 'sleep' : 'linkLost';
+        // Reconnect only if a ready session was lost without disconnect() being called or the device going to sleep
+        const reconnect = !!this.autoReconnect && this.sessionReady && reason === 'linkLost' && !this.reconnection;
+        this.sessionReady = false;
+        this.sleepRequested = false;
+        this.lastDisconnectReason = reason;
+        this.cancelShutdown();
+        if (this.connectionState !== 'idle') this.setConnectionState('disconnected');
+        this.messageAssembler.reset();
+        for (const [msgCode, waiters] of this.messageWaiters) {
+            for (const waiter of waiters) {
+                clearTimeout(waiter.timeoutId);
+                waiter.reject(new Error(`Device disconnected while waiting for message ${msgCode}.`));
+            }
+        }
+        this.messageWaiters.clear();
+        if (reconnect || this.reconnection) {
+            // keep queued commands for when the session is restored
+            this.commandQueue.hold(new Error("Device disconnected while awaiting a response."));
+        } else {
+            this.commandQueue.clear(new Error("Device disconnected while awaiting a response."));
+        }
+        this.emit('disconnect', reason);
+        if (reconnect) {
+            this.startReconnection();
         }
     }
 
-    private notificationHandler = (event: Event) => {
-        const characteristic = event.target as BluetoothRemoteGATTCharacteristic;
-        const value = characteristic.value; // This is a DataView
-        if (!value || value.buffer.byteLength === 0) return;
+    private notificationHandler = (value: Uint8Array) => {
+        if (value.byteLength === 0) return;
+        this.traceRecorder?.record('rx', value);
 
-        // The first byte of the raw characteristic value determines the type of message.
+        // The first byte of the raw packet determines the type of message.
         // 0x01 indicates a data response. Other values (or no prefix) indicate a print response.
         // Note: Some devices might send print strings without a specific prefix byte if the data
         // is purely string data and not conforming to a more complex protocol on the same characteristic.
         // Here, we assume if it's not explicitly a data packet (0x01), it's a print string.
 
-        if (value.byteLength > 0 && value.getUint8(0) === 1) { // Data response
+        if (value[0] === 1) { // Data response
             // Create a Uint8Array view of the data payload (from byte 1 to the end).
             // This avoids copying the underlying ArrayBuffer.
-            const actualData = new Uint8Array(value.buffer, value.byteOffset + 1, value.byteLength - 1);
+            const actualData = value.subarray(1);
 
-            if (this.awaitingDataResponse && this.dataResolve) {
-                this.awaitingDataResponse = false;
-                this.dataResolve(actualData); // Resolve with Uint8Array
-            }
-            if (this.onDataResponse) {
-                const result = this.onDataResponse(actualData); // Pass Uint8Array
-                if (result instanceof Promise) {
-                    result.catch(console.error);
-                }
+            // responses to commands (e.g. upload acknowledgements) are never part of a message
+            const consumed = this.commandQueue.handleResponse('data', actualData);
+            if (!consumed && actualData.byteLength > 0 && this.isMessageCodeTracked(actualData[0])) {
+                this.messageAssembler.accept(actualData);
             }
+            this.emit('data', actualData);
         } else { // Print response (string)
-            const decodedString = new TextDecoder().decode(value); // DataView is decodable
-            if (this.awaitingPrintResponse && this.printResolve) {
-                this.awaitingPrintResponse = false;
-                this.printResolve(decodedString);
-            }
-            if (this.onPrintResponse) {
-                const result = this.onPrintResponse(decodedString);
-                if (result instanceof Promise) {
-                    result.catch(console.error);
-                }
+            const decodedString = this.mapSourceLines(new TextDecoder().decode(value));
+            const luaError = parseLuaErrorOutput(decodedString);
+            if (luaError) {
+                this.handleLuaError(decodedString, luaError);
+                return;
             }
+            const consumed = this.commandQueue.handleResponse('print', decodedString);
+            if (consumed && decodedString.startsWith(FrameBle.QUERY_TAG)) return; // replies to queryDevice are internal
+            this.emit('print', decodedString);
         }
     }
 
     /**
-     * Attempts to establish a connection with the device and set up characteristics.
-     * This method is intended to be called internally by `connect` and handles a single connection attempt.
+     * Replaces the locations in files uploaded minified (e.g. `app.lua:3:` in an error message or traceback)
+     * with the corresponding locations in their source.
      */
-    private async _attemptConnection(): Promise<void> {
-        if (!this.device || !this.device.gatt) {
-            // this.device should be set by the connect() method before calling this.
-            // this.device.gatt might be null if the device object exists but was never connected.
-            throw new Error("Bluetooth device or GATT interface not available for connection attempt.");
-        }
-
-        // Reset characteristics and server from any previous failed attempt within a retry loop.
-        this.txCharacteristic = undefined;
-        this.rxCharacteristic = undefined;
-        this.server = undefined;
-
-        try {
-            console.log(`Attempting to connect to GATT server on device: ${this.device.name || this.device.id}...`);
-            this.server = await this.device.gatt.connect();
-            console.log("GATT server connected.");
+    private mapSourceLines(text: string): string {
+        if (this.sourceLineMaps.size === 0) return text;
+        return text.replace(/([^\s:'"]+):(\d+):/g, (location, path: string, line: string) => {
+            const sourceLine = this.sourceLineMaps.get(path.replace(/^\/+/, ""))?.[parseInt(line) - 1];
+            return sourceLine === undefined ? location : `${path}:${sourceLine}:`;
+        });
+    }
 
-            console.log("Getting primary service...");
-            const service = await this.server.getPrimaryService(this.SERVICE_UUID);
-            console.log("Primary service obtained.");
+    private setSourceLineMap(path: string, lineMap: number[] | undefined) {
+        const key = path.replace(/^\/+/, "");
+        if (lineMap) {
+            this.sourceLineMaps.set(key, lineMap);
+        } else {
+            this.sourceLineMaps.delete(key);
+        }
+    }
 
-            console.log("Getting TX characteristic...");
-            this.txCharacteristic = await service.getCharacteristic(this.TX_CHARACTERISTIC_UUID);
-            console.log("TX characteristic obtained.");
+    /**
+     * Rejects the pending command whose Lua chunk raised the error, or reports the error through `luaError`.
+     * Lua names a chunk loaded from a string after its first line, truncated and followed by "..." if long.
+     */
+    private handleLuaError(text: string, output: LuaErrorOutput) {
+        const chunkPrefix = output.chunkName?.replace(/\.\.\.$/, "");
+        const isSource = (source: string) => chunkPrefix === undefined || source.startsWith(chunkPrefix);
+
+        const activeSource = this.commandQueue.activeSource();
+        if (activeSource !== undefined && isSource(activeSource)) {
+            this.commandQueue.rejectActive(new FrameLuaError(text, activeSource, output.line));
+            return;
+        }
 
-            console.log("Getting RX characteristic...");
-            this.rxCharacteristic = await service.getCharacteristic(this.RX_CHARACTERISTIC_UUID);
-            console.log("RX characteristic obtained.");
+        const chunk = chunkPrefix === undefined ? undefined : [...this.recentLua].reverse().find(isSource);
+        const error = new FrameLuaError(text, chunk ?? output.chunkName, output.line);
+        if (this.listenerCount('luaError') > 0) {
+            this.emit('luaError', error);
+        } else {
+            this.reportError(error);
+        }
+    }
 
-            console.log("Starting notifications on RX characteristic...");
-            await this.rxCharacteristic.startNotifications();
-            this.rxCharacteristic.addEventListener('characteristicvaluechanged', this.notificationHandler);
-            console.log("Notifications started.");
+    /**
+     * Attempts to open the transport and perform the Frame handshake.
+     * This method is intended to be called internally by `connect` and handles a single connection attempt.
+     */
+    private async _attemptConnection(): Promise<void> {
+        this.setConnectionState('connecting');
+        await this.transport.open(() => this.setConnectionState('discovering'));
+        this.setConnectionState('handshaking');
 
+        try {
             await this.sendBreakSignal(false); // Initialize device state if necessary
 
-            console.log("Fetching MTU size (max_length) from device...");
+            this.logger.debug("Fetching MTU size (max_length) from device...");
             const mtuString = await this.sendLua("print(frame.bluetooth.max_length())", {awaitPrint: true});
             if (mtuString === undefined || mtuString === null) {
-                throw new Error("Failed to get MTU size from device: no response.");
+                throw new FrameHandshakeError("Failed to get MTU size from device: no response.");
             }
             const mtu = parseInt(mtuString);
             if (isNaN(mtu) || mtu <= 0) {
-                throw new Error(`Invalid MTU size received: '${mtuString}'`);
+                throw new FrameHandshakeError(`Invalid MTU size received: '${mtuString}'`);
             }
             this.maxPayload = mtu;
-            console.log(`MTU size set to: ${this.maxPayload}`);
+            this.logger.debug(`MTU size set to: ${this.maxPayload}`);
 
         } catch (error) {
-            console.error("Error during connection attempt:", error);
+            this.logger.error("Error during connection handshake:", error);
             // Cleanup for this specific failed attempt
-            if (this.rxCharacteristic) {
-                try {
-                    // Only try to stop notifications if gatt was connected and rxCharacteristic was obtained
-                    if (this.device?.gatt?.connected) {
-                        await this.rxCharacteristic.stopNotifications();
-                    }
-                } catch (stopNotificationError) {
-                    // console.warn("Could not stop notifications during attempt cleanup:", stopNotificationError);
-                }
-                this.rxCharacteristic.removeEventListener('characteristicvaluechanged', this.notificationHandler);
-                this.rxCharacteristic = undefined;
-            }
-            this.txCharacteristic = undefined;
-            if (this.device?.gatt?.connected) {
-                this.device.gatt.disconnect(); // Disconnect from GATT for this attempt
+            if (this.transport.isConnected()) {
+                await this.transport.close();
             }
-            this.server = undefined;
-            throw error; // Rethrow to be handled by the calling loop in connect()
+            if (error instanceof FrameHandshakeError) throw error;
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new FrameHandshakeError(`Failed to get MTU size from device: ${reason}`, error); // Rethrow to be handled by the calling loop in connect()
         }
     }
 
@@ -199,8 +659,15 @@ export class FrameBle {
      * @param options.namePrefix - The prefix of the device name to filter by.
      * @param options.numAttempts - The maximum number of connection attempts. Defaults to 5.
      * @param options.retryDelayMs - The delay in milliseconds between retry attempts. Defaults to 1000ms.
+     * @param options.autoReconnect - If true (or an options object), automatically reconnects to the same device
+     * without prompting when the link is lost, backing off between attempts, re-fetching the MTU and re-running
+     * the steps registered with `addSetupStep`. Sends made while reconnecting wait instead of failing. Defaults to false.
      * @returns A promise that resolves with the name or ID of the connected device, or undefined if connection fails.
-     * @throws Error if Web Bluetooth is not available, if device selection is cancelled, or if connection fails after all attempts.
+     * @throws FrameCancelledError if the user closes the device chooser without picking a device.
+     * @throws FrameServiceNotFoundError if the device doesn't offer the Frame service.
+     * @throws FrameGattError if opening the link fails (after all attempts, if the failure is retryable).
+     * @throws FrameHandshakeError if the device doesn't answer the MTU query after the link is open.
+     * @throws FrameConnectionError if Web Bluetooth is not available; an error thrown by a setup step is passed on as is.
      */
     public async connect(
         options: {
@@ -208,186 +675,795 @@ export class FrameBle {
             namePrefix?: string;
             numAttempts?: number;
             retryDelayMs?: number;
+            autoReconnect?: boolean | AutoReconnectOptions;
         } = {}
     ): Promise<string | undefined> {
-        const { name, namePrefix, numAttempts = 5, retryDelayMs = 1000 } = options; // Default values mentioned in JSDoc
+        const { name, namePrefix, numAttempts = 5, retryDelayMs = 1000, autoReconnect = false } = options; // Default values mentioned in JSDoc
+        this.disconnectRequested = false;
+        this.sleepRequested = false;
 
-        if (!navigator.bluetooth) {
-            throw new Error("Web Bluetooth API not available.");
+        // Step 1: Request device from the transport - This happens only if a device is not already selected.
+        if (!this.transport.hasDevice()) {
+            this.setConnectionState('requesting');
+            try {
+                await this.transport.requestDevice({ name, namePrefix });
+            } catch (error) {
+                this.setConnectionState('idle');
+                throw error;
+            }
         }
 
-        // Step 1: Request device from browser - This happens only if this.device is not already set.
-        if (!this.device) {
-            const baseFilter: BluetoothLEScanFilter = name
-                ? { services: [this.SERVICE_UUID], name: name }
-                : namePrefix
-                    ? { services: [this.SERVICE_UUID], namePrefix: namePrefix }
-                    : { services: [this.SERVICE_UUID] };
+        // Store the name of the device we are attempting to connect to for this sequence.
+        // This is important because a disconnect event might clear the transport's device.
+        const deviceName = this.transport.getDeviceName() || "Unknown Device";
+
+        let lastError: unknown;
+
+        for (let attempt = 1; attempt <= numAttempts; attempt++) {
+            // If the device was cleared due to an external disconnect event
+            if (!this.transport.hasDevice()) {
+                this.logger.warn(`Device '${deviceName}' was disconnected externally during connection attempts.`);
+                lastError = lastError || new Error(`Device disconnected externally during connection attempt ${attempt}.`);
+                break; // Exit retry loop as the device instance is no longer valid.
+            }
 
-            const deviceOptions: RequestDeviceOptions = {
-                filters: [baseFilter],
-                optionalServices: [this.SERVICE_UUID],
-            };
             try {
-                console.log("Requesting Bluetooth device from user...");
-                this.device = await navigator.bluetooth.requestDevice(deviceOptions);
-                if (!this.device) {
-                    // This case should ideally be caught by requestDevice throwing an error if user cancels.
-                    throw new Error("No device selected by the user.");
+                this.logger.info(`Connection attempt ${attempt} of ${numAttempts} to device '${deviceName}'...`);
+                await this._attemptConnection();
+                await this.runSetupSteps();
+                this.logger.info(`Successfully connected to ${deviceName} on attempt ${attempt}.`);
+                if (autoReconnect) {
+                    const { maxAttempts = 10, initialDelayMs = 500, maxDelayMs = 10000 } = autoReconnect === true ? {} : autoReconnect;
+                    this.autoReconnect = { maxAttempts, initialDelayMs, maxDelayMs };
+                } else {
+                    this.autoReconnect = undefined;
                 }
-                console.log(`Device selected: ${this.device.name || this.device.id}`);
+                this.sessionReady = true;
+                this.setConnectionState('ready');
+                this.emit('connect', deviceName);
+                return deviceName;
             } catch (error) {
-                console.error("Bluetooth device request failed:", error);
-                this.device = undefined; // Ensure device is reset
-                throw error; // Rethrow error from requestDevice (e.g., user cancellation)
+                lastError = error;
+                this.logger.error(`Attempt ${attempt} to connect to '${deviceName}' failed:`, error);
+
+                if (this.transport.isRetryableError(error) && attempt < numAttempts) {
+                    this.logger.info(`Retryable error encountered. Retrying in ${retryDelayMs / 1000}s...`);
+                    await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+                    // _attemptConnection's cleanup should have closed the link for the next attempt.
+                } else {
+                    this.logger.info("Non-retryable error or max attempts reached. Aborting connection process.");
+                    break; // Exit loop to proceed to final cleanup and throw
+                }
+            }
+        }
+
+        // If loop finishes, all attempts failed or a non-retryable/external error occurred.
+        this.logger.error(`Failed to connect to device '${deviceName}' after ${numAttempts} attempts or due to external disconnection.`);
+
+        // Crucially, forget the device so a subsequent call to connect() re-prompts the user for a device.
+        this.transport.forget();
+        this.setConnectionState('idle');
+
+        if (lastError) {
+            throw lastError;
+        } else {
+            // This case should ideally not be reached if numAttempts >= 1, as lastError would be set.
+            throw new Error(`Failed to connect to ${deviceName} after ${numAttempts} attempts. No specific error recorded, or device disconnected externally.`);
+        }
+    }
+
+    /**
+     * Disconnects from the currently connected Frame device.
+     * If no device is connected, this method only runs the disconnect cleanup logic.
+     * An automatic reconnection in progress and the telemetry monitor are stopped.
+     * @returns A promise that resolves once the disconnection process has been initiated, or immediately if already disconnected.
+     */
+    public async disconnect(): Promise<void> {
+        this.disconnectRequested = true;
+        this.stopTelemetryMonitor();
+        if (this.transport.isConnected()) this.setConnectionState('disconnecting');
+        await this.transport.close();
+    }
+
+    /**
+     * Checks if the Frame device is currently connected.
+     * @returns True if the device is connected, false otherwise.
+     */
+    public isConnected(): boolean {
+        return this.transport.isConnected();
+    }
+
+    /**
+     * Gets the state of the connection, which changes are announced by the `stateChange` event.
+     * @returns The connection state (see `ConnectionState`).
+     */
+    public getConnectionState(): ConnectionState {
+        return this.connectionState;
+    }
+
+    private setConnectionState(state: ConnectionState) {
+        const previous = this.connectionState;
+        if (state === previous) return;
+        this.connectionState = state;
+        this.logger.debug(`Connection state: ${previous} -> ${state}`);
+        this.emit('stateChange', state, previous);
+    }
+
+    /**
+     * Gets the maximum payload size for a single BLE transmission.
+     * This value is determined after device connection.
+     * For Lua strings, the full `maxPayload` can be used.
+     * For data packets (which include a 0x01 prefix byte), the effective payload is `maxPayload - 1`.
+     * @param isLua If true, returns the max payload for Lua strings. Otherwise, for data packets.
+     * @returns The maximum payload size in bytes.
+     */
+    public getMaxPayload(isLua: boolean): number {
+        return isLua ? this.maxPayload : this.maxPayload - 1;
+    }
+
+    /**
+     * Gets the firmware version, name and MTU of the connected device.
+     * @returns A promise that resolves with the device information.
+     * @throws Error if the device doesn't respond in time.
+     */
+    public async getDeviceInfo(): Promise<FrameDeviceInfo> {
+        const [firmwareVersion] = await this.queryDevice(["frame.FIRMWARE_VERSION"]);
+        return { name: this.transport.getDeviceName(), firmwareVersion, mtu: this.maxPayload };
+    }
+
+    /**
+     * Gets the battery level of the device.
+     * @returns A promise that resolves with the battery level in percent.
+     * @throws Error if the device doesn't respond in time.
+     */
+    public async getBattery(): Promise<number> {
+        const [level] = await this.queryDevice(["frame.battery_level()"]);
+        return FrameBle.parseNumber(level, "battery level");
+    }
+
+    /**
+     * Gets the memory used by Lua on the device.
+     * @returns A promise that resolves with the memory usage in kilobytes.
+     * @throws Error if the device doesn't respond in time.
+     */
+    public async getMemoryUsage(): Promise<number> {
+        const [usage] = await this.queryDevice(["collectgarbage('count')"]);
+        return FrameBle.parseNumber(usage, "memory usage");
+    }
+
+    /**
+     * Starts polling the battery level and memory usage in the background, emitting a `telemetry` event
+     * for each reading, and `batteryLow` and `memoryGrowth` events when the thresholds are crossed.
+     * Polls are queued behind other commands and skipped while the device is disconnected or reconnecting.
+     * Calling it again restarts the monitor with the new options.
+     * @param options Optional polling interval and thresholds.
+     * @param options.intervalMs The time in milliseconds between readings. Defaults to 60000ms.
+     * @param options.lowBatteryLevel The battery level (percent) at or below which `batteryLow` is emitted. Defaults to 20.
+     * @param options.memoryGrowthKb The memory growth in kilobytes at which `memoryGrowth` is emitted. Defaults to 16.
+     */
+    public startTelemetryMonitor(options: TelemetryMonitorOptions = {}): void {
+        const { intervalMs = 60000, lowBatteryLevel = 20, memoryGrowthKb = 16 } = options;
+        this.stopTelemetryMonitor();
+        this.telemetryMonitor = new TelemetryMonitor(
+            async () => {
+                if (!this.sessionReady || this.reconnection) return undefined;
+                const [level, usage] = await this.queryDevice(["frame.battery_level()", "collectgarbage('count')"], { priority: -1 });
+                return {
+                    batteryLevel: FrameBle.parseNumber(level, "battery level"),
+                    memoryUsageKb: FrameBle.parseNumber(usage, "memory usage"),
+                    time: Date.now(),
+                };
+            },
+            {
+                sample: telemetry => this.emit('telemetry', telemetry),
+                batteryLow: level => this.emit('batteryLow', level),
+                memoryGrowth: (usageKb, baselineKb) => this.emit('memoryGrowth', usageKb, baselineKb),
+                error: error => this.logger.warn("Telemetry poll failed:", error),
+            },
+            { intervalMs, lowBatteryLevel, memoryGrowthKb });
+        this.telemetryMonitor.start();
+    }
+
+    /**
+     * Stops the telemetry monitor, if running.
+     */
+    public stopTelemetryMonitor(): void {
+        this.telemetryMonitor?.stop();
+        this.telemetryMonitor = undefined;
+    }
+
+    /**
+     * Keeps the device awake while it is in the charging cradle, e.g. during development, or lets it sleep there again.
+     * @param enabled True to keep the device awake.
+     * @returns A promise that resolves once the device has applied the setting.
+     * @throws Error if the device doesn't respond in time.
+     */
+    public async setStayAwake(enabled: boolean): Promise<void> {
+        await this.sendLua(`frame.stay_awake(${enabled});print(1)`, { awaitPrint: true });
+    }
+
+    /**
+     * Puts the device to sleep.
+     * A light sleep turns the display and camera off but keeps the link and the running app; `wake()` turns them on again.
+     * A deep sleep powers the device down until it is tapped or taken out of the charging cradle, which closes the link:
+     * the `disconnect` event then reports `sleep` rather than `linkLost`, and no automatic reconnection is made
+     * (see `waitForWake`).
+     * @param options Optional configuration for the sleep.
+     * @param options.deep If true, puts the device into deep sleep. Defaults to false.
+     * @param options.timeout The time in milliseconds to wait for the device to drop the link after a deep sleep,
+     * after which the link is closed from this side. Defaults to 3000ms.
+     * @returns A promise that resolves once the device is asleep (after a deep sleep, once the link is closed).
+     * @throws Error if the device doesn't respond in time to a light sleep, or the deep sleep command can't be sent.
+     */
+    public async sleep(options: { deep?: boolean; timeout?: number } = {}): Promise<void> {
+        const { deep = false, timeout = 3000 } = options;
+        if (!deep) {
+            await this.sendLua("frame.display.power_save(true);frame.camera.sleep();print(1)", { awaitPrint: true });
+            return;
+        }
+
+        let removeDisconnect = () => {};
+        const closed = new Promise<boolean>(resolve => removeDisconnect = this.on('disconnect', () => resolve(true)));
+        let timeoutId: NodeJS.Timeout | undefined;
+        this.sleepRequested = true;
+        try {
+            await this.sendLua("frame.sleep()");
+            const dropped = await Promise.race([
+                closed,
+                new Promise<boolean>(resolve => timeoutId = setTimeout(() => resolve(false), timeout)),
+            ]);
+            if (!dropped) {
+                this.logger.debug(`Device still connected ${timeout}ms after going to sleep, closing the link.`);
+                await this.transport.close();
+            }
+        } catch (error) {
+            this.sleepRequested = false;
+            throw error;
+        } finally {
+            clearTimeout(timeoutId);
+            removeDisconnect();
+        }
+    }
+
+    /**
+     * Turns the display and camera on again after a light sleep.
+     * @returns A promise that resolves once the device is awake.
+     * @throws Error if the device doesn't respond in time.
+     */
+    public async wake(): Promise<void> {
+        await this.sendLua("frame.display.power_save(false);frame.camera.wake();print(1)", { awaitPrint: true });
+    }
+
+    /**
+     * Restarts the Lua runtime of the device with a reset signal, which clears the Lua state and runs main.lua.
+     * If setup steps are registered (see `addSetupStep`), main.lua is interrupted and the steps run again,
+     * leaving the device as after connecting.
+     * @returns A promise that resolves once the device has restarted (and the setup steps have run).
+     * @throws Error if a signal can't be sent; an error thrown by a setup step is passed on as is.
+     */
+    public async restart(): Promise<void> {
+        await this.sendResetSignal();
+        if (this.setupSteps.length === 0) return;
+        await this.sendBreakSignal();
+        await this.runSetupSteps();
+    }
+
+    /**
+     * Puts the device into deep sleep after a delay, e.g. to power it down once an app has finished.
+     * Scheduling again replaces the previous schedule, and the schedule is dropped if the link closes first.
+     * A failure to put the device to sleep is reported through the `error` event.
+     * @param delayMs The delay in milliseconds.
+     * @returns A function that cancels the shutdown.
+     */
+    public scheduleShutdown(delayMs: number): () => void {
+        this.cancelShutdown();
+        const timeoutId = setTimeout(() => {
+            this.shutdownTimeoutId = undefined;
+            this.sleep({ deep: true }).catch(error => {
+                this.reportError(error instanceof Error ? error : new Error(String(error)));
+            });
+        }, delayMs);
+        this.shutdownTimeoutId = timeoutId;
+        return () => {
+            if (this.shutdownTimeoutId === timeoutId) this.cancelShutdown();
+        };
+    }
+
+    private cancelShutdown() {
+        clearTimeout(this.shutdownTimeoutId);
+        this.shutdownTimeoutId = undefined;
+    }
+
+    /**
+     * Gets the reason the link to the device was last closed.
+     * @returns The reason reported by the last `disconnect` event, or undefined if the link hasn't been closed yet.
+     */
+    public getLastDisconnectReason(): DisconnectReason | undefined {
+        return this.lastDisconnectReason;
+    }
+
+    /**
+     * Waits for a device put into deep sleep to wake up, then reconnects to it without prompting, re-running
+     * the handshake and setup steps as an automatic reconnection does (including its `reconnecting` events).
+     * Sends made meanwhile wait for the device instead of failing.
+     * @param options Optional configuration for the wait.
+     * @param options.timeout The time in milliseconds to keep trying. Defaults to 60000ms.
+     * @param options.intervalMs The time in milliseconds between connection attempts. Defaults to 2000ms.
+     * @returns A promise that resolves once the device is connected again.
+     * @throws FrameTimeoutError if the device doesn't wake up in time.
+     * @throws Error if the device isn't asleep, or `disconnect()` is called while waiting.
+     */
+    public async waitForWake(options: { timeout?: number; intervalMs?: number } = {}): Promise<void> {
+        const { timeout = 60000, intervalMs = 2000 } = options;
+        if (this.lastDisconnectReason !== 'sleep' || this.isConnected() || this.reconnection) {
+            throw new Error("The device isn't asleep.");
+        }
+        this.disconnectRequested = false;
+        const maxAttempts = Math.max(1, Math.ceil(timeout / intervalMs));
+        const reconnection = this.reconnect({ maxAttempts, initialDelayMs: intervalMs, maxDelayMs: intervalMs });
+        this.reconnection = reconnection;
+        try {
+            await reconnection;
+            this.reconnection = undefined;
+            this.commandQueue.release();
+        } catch (error) {
+            this.reconnection = undefined;
+            const wakeError = this.disconnectRequested || !(error instanceof Error)
+                ? error
+                : new FrameTimeoutError(`Device didn't wake up within ${timeout}ms: ${error.message}`, timeout);
+            this.commandQueue.clear(wakeError instanceof Error ? wakeError : new Error(String(wakeError)));
+            throw wakeError;
+        }
+    }
+
+    /**
+     * Prints the values of Lua expressions on the device, separated by commas and tagged so the
+     * reply can't be confused with prints from a running app.
+     */
+    private async queryDevice(expressions: string[], options: { priority?: number; timeout?: number } = {}): Promise<string[]> {
+        const response = await this.sendTaggedLua(`print('${FrameBle.QUERY_TAG}'..${expressions.join("..','..")})`, options);
+        return response.split(",");
+    }
+
+    /**
+     * Sends a Lua command that prints a reply starting with `QUERY_TAG`, and resolves with the reply without its tag.
+     * Other prints (e.g. from a running app) don't satisfy the command, and the reply isn't emitted as a print event.
+     */
+    private async sendTaggedLua(lua: string, options: { priority?: number; timeout?: number } = {}): Promise<string> {
+        const { priority = 0, timeout = 5000 } = options;
+        const reconnection = this.pendingReconnection();
+        if (reconnection) await reconnection;
+        const encodedString = new TextEncoder().encode(lua);
+        if (encodedString.byteLength > this.getMaxPayload(true)) {
+            throw new Error(`Lua string payload (${encodedString.byteLength} bytes) is too large for max Lua payload (${this.getMaxPayload(true)} bytes).`);
+        }
+        const response = await this.commandQueue.enqueue<string>('print', () => this.transmit(encodedString), {
+            timeout,
+            priority,
+            source: lua,
+            accepts: value => typeof value === 'string' && value.startsWith(FrameBle.QUERY_TAG),
+        });
+        return response.substring(FrameBle.QUERY_TAG.length);
+    }
+
+    /**
+     * Calls a Lua function on the device and resolves with what it returns.
+     *
+     * The arguments are written as Lua literals (see `toLuaLiteral`), so strings with quotes, newlines or
+     * non-ASCII text arrive intact. The first call of a session installs a small helper on the device, which
+     * calls the function in protected mode and sends its return values back as JSON, in as many prints as needed.
+     * Calls too long for one packet are sent through the `evalLua` buffer.
+     * @param functionName The name of a global function, optionally qualified with table names (e.g. "app.draw").
+     * @param args The arguments to call the function with.
+     * @param options Optional configuration for the call.
+     * @param options.timeout The timeout in milliseconds to wait for the function to return, and for each further part of its reply. Defaults to 5000ms.
+     * @param options.priority Queued commands with a higher priority are sent first. Defaults to 0.
+     * @returns A promise that resolves with the function's first return value (null for `nil`); tables arrive as arrays
+     * if they are sequences and as objects otherwise. Functions, userdata and other values the helper can't encode arrive as strings.
+     * @throws FrameLuaError if the function doesn't exist or raises an error.
+     * @throws Error if the function name or an argument is invalid, or a timeout occurs.
+     */
+    public async call<T = unknown>(
+        functionName: string,
+        args: LuaSerializable[] = [],
+        options: {
+            timeout?: number;
+            priority?: number;
+        } = {}
+    ): Promise<T> {
+        const { timeout = 5000, priority = 0 } = options;
+        if (!/^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/.test(functionName)) {
+            throw new Error(`Invalid Lua function name: ${functionName}`);
+        }
+        const id = ++this.rpcCallCount;
+        const partSize = this.getMaxPayload(true) - 12; // leaves room for the tag and length prefix
+        const argumentList = args.map(arg => "," + toLuaLiteral(arg)).join("");
+        const lua = `print(_rpc and _rpc.call(${id},${partSize},${functionName}${argumentList}) or '${FrameBle.QUERY_TAG}!')`;
+        const send = async () => new TextEncoder().encode(lua).byteLength <= this.getMaxPayload(true)
+            ? this.sendTaggedLua(lua, { timeout, priority })
+            : (await this.evalLua(lua, { timeout })).substring(FrameBle.QUERY_TAG.length);
+
+        let response = await send();
+        if (response === "!") {
+            this.logger.debug("Installing Lua RPC helper...");
+            await this.evalLua(RPC_HELPER_LUA);
+            response = await send();
+        }
+        const header = response.match(/^(\d+):/);
+        if (!header) {
+            throw new Error(`Unexpected response from call to ${functionName}: ${response}`);
+        }
+        const length = parseInt(header[1]);
+        let reply = response.substring(header[0].length);
+        // the length is in bytes; error messages may hold non-ASCII text
+        let received = new TextEncoder().encode(reply).byteLength;
+        while (received < length) {
+            const part = await this.sendTaggedLua(`print(_rpc.part(${id},${received + 1},${partSize}))`, { timeout, priority });
+            if (part.length === 0) {
+                throw new Error(`Reply from ${functionName} ended after ${received} of ${length} bytes.`);
             }
+            reply += part;
+            received += new TextEncoder().encode(part).byteLength;
+        }
+
+        if (reply[0] === '-') {
+            const location = parseLuaErrorOutput(reply.substring(1));
+            throw new FrameLuaError(reply.substring(1), location?.chunkName ?? functionName, location?.line);
+        }
+        const values = JSON.parse(reply.substring(1)) as unknown[];
+        return (values.length > 0 ? values[0] : null) as T;
+    }
+
+    /**
+     * Captures a photo with the Frame camera and resolves with the JPEG.
+     *
+     * The first capture of a session installs a small capture script on the device. The device then streams
+     * the JPEG in data packets, which are collected until the last one arrives. No other command awaiting a
+     * response is sent meanwhile.
+     * @param options Optional configuration for the capture (see `CaptureOptions` for the defaults).
+     * @returns A promise that resolves with the bytes of the JPEG.
+     * @throws FrameLuaError if the camera reports an error.
+     * @throws FrameCaptureError if the image doesn't arrive complete in time (or the device disconnects first);
+     * the bytes received so far are in its `partialImage`.
+     * @throws Error if an option is invalid.
+     */
+    public async captureImage(options: CaptureOptions = {}): Promise<Uint8Array> {
+        const { quality = 'VERY_HIGH', resolution = 512, autoExposure = true, timeout = 15000 } = options;
+        if (!CAMERA_QUALITIES.includes(quality)) {
+            throw new Error(`Unknown camera quality: ${quality}`);
+        }
+        if (!Number.isInteger(resolution) || resolution < 100 || resolution > 720 || resolution % 2 !== 0) {
+            throw new Error(`Resolution must be an even number from 100 to 720, got ${resolution}`);
+        }
+
+        await this.installLuaHelper('_cam', CAMERA_LUA, "camera capture");
+
+        const chunks: Uint8Array[] = [];
+        const removeChunkListener = this.on('data', data => {
+            if (data[0] === IMAGE_CHUNK || data[0] === IMAGE_FINAL) {
+                chunks.push(data.slice(1));
+            }
+        });
+        const partialImage = () => FrameBle.concatBytes(chunks);
+
+        const lua = `_cam.capture(${resolution},'${quality}',${autoExposure})`;
+        let last: Uint8Array;
+        try {
+            const reconnection = this.pendingReconnection();
+            if (reconnection) await reconnection;
+            last = await this.commandQueue.enqueue<Uint8Array>('data', () => this.transmit(new TextEncoder().encode(lua)), {
+                timeout,
+                priority: 0,
+                source: lua,
+                accepts: data => data instanceof Uint8Array && (data[0] === IMAGE_FINAL || data[0] === IMAGE_ERROR),
+            });
+        } catch (error) {
+            if (error instanceof FrameLuaError) throw error;
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new FrameCaptureError(`Image capture failed after ${partialImage().byteLength} bytes: ${reason}`, partialImage());
+        } finally {
+            removeChunkListener();
+        }
+
+        if (last[0] === IMAGE_ERROR) {
+            throw new FrameLuaError(new TextDecoder().decode(last.subarray(1)), lua);
+        }
+        const image = partialImage();
+        if (image.byteLength < 4 || image[0] !== 0xFF || image[1] !== 0xD8 || image[image.byteLength - 2] !== 0xFF || image[image.byteLength - 1] !== 0xD9) {
+            throw new FrameCaptureError(`Captured image (${image.byteLength} bytes) is not a complete JPEG.`, image);
+        }
+        return image;
+    }
+
+    /**
+     * Starts streaming from the Frame microphone and returns the samples as they arrive.
+     *
+     * The first stream of a session installs a small streaming script on the device. While it runs, the
+     * device's Lua REPL is busy, so other commands wait until `stopAudio()` is called.
+     * @param options Optional configuration for the microphone (see `AudioOptions` for the defaults).
+     * @returns A promise that resolves, once streaming has started, with an async iterator of 16-bit mono PCM frames
+     * (see `encodeWav`). It ends after `stopAudio()` or a disconnect; breaking out of a `for await` loop stops
+     * listening but not the microphone.
+     * @throws Error if audio is already streaming or an option is invalid.
+     */
+    public async startAudio(options: AudioOptions = {}): Promise<AsyncIterableIterator<Int16Array>> {
+        const { sampleRate = 8000, bitDepth = 16 } = options;
+        if (sampleRate !== 8000 && sampleRate !== 16000) {
+            throw new Error(`Sample rate must be 8000 or 16000, got ${sampleRate}`);
         }
+        if (bitDepth !== 8 && bitDepth !== 16) {
+            throw new Error(`Bit depth must be 8 or 16, got ${bitDepth}`);
+        }
+        if (this.audioSession) {
+            throw new Error("Audio is already streaming; call stopAudio() first.");
+        }
+
+        await this.installLuaHelper('_mic', AUDIO_LUA, "audio streaming");
+
+        let endStream = () => {};
+        const stream = eventStream<Int16Array>((push, end) => {
+            endStream = end;
+            return this.on('data', data => {
+                if (data[0] === AUDIO_CHUNK) push(decodePcm(data.subarray(1), bitDepth));
+            });
+        });
+        let markEnded = () => {};
+        const ended = new Promise<void>(resolve => markEnded = resolve);
+        const finish = () => {
+            removeEndListener();
+            removeDisconnectListener();
+            this.audioSession = undefined;
+            endStream();
+            markEnded();
+        };
+        const removeEndListener = this.on('data', data => {
+            if (data[0] === AUDIO_END) finish();
+        });
+        const removeDisconnectListener = this.on('disconnect', finish);
+        this.audioSession = { finish, ended };
+
+        try {
+            await this.sendLua(`_mic.run(${sampleRate},${bitDepth})`);
+        } catch (error) {
+            finish();
+            throw error;
+        }
+        return stream;
+    }
 
-        // At this point, this.device should be set (either pre-existing or newly selected).
-        if (!this.device) {
-            // Fallback, should have been handled by logic above.
-            throw new Error("Device not available after selection phase.");
+    /**
+     * Stops the microphone stream started by `startAudio()`, if any, by sending a break signal.
+     * The device then stops the microphone and confirms; without a confirmation within a second,
+     * the microphone is stopped with a separate command.
+     * @returns A promise that resolves once the stream has ended.
+     */
+    public async stopAudio(): Promise<void> {
+        const session = this.audioSession;
+        if (!session) return;
+        await this.sendBreakSignal();
+
+        let timeoutId: NodeJS.Timeout | undefined;
+        const confirmed = await Promise.race([
+            session.ended.then(() => true),
+            new Promise<boolean>(resolve => timeoutId = setTimeout(() => resolve(false), 1000)),
+        ]);
+        clearTimeout(timeoutId);
+        if (!confirmed) {
+            this.logger.warn("Device didn't confirm that audio stopped; stopping the microphone directly.");
+            session.finish();
+            await this.sendLua("pcall(frame.microphone.stop);print(1)", { awaitPrint: true });
         }
+    }
 
-        // Store a reference to the device we are attempting to connect to for this sequence.
-        // This is important because this.handleDisconnect might clear this.device.
-        const currentDeviceToConnect = this.device;
-
-        // Ensure the 'gattserverdisconnected' listener is correctly managed for the current device.
-        // Remove first to prevent duplicates if connect is called multiple times on the same instance.
-        currentDeviceToConnect.removeEventListener('gattserverdisconnected', this.handleDisconnect);
-        currentDeviceToConnect.addEventListener('gattserverdisconnected', this.handleDisconnect);
-
-        let lastError: any;
+    /**
+     * Subscribes to taps on the glasses. The device reports each tap over the data channel; taps within
+     * 300ms of each other are grouped into one event, so a double tap arrives as one event with a count of 2.
+     *
+     * The first subscription installs a small event script on the device and sets it as the tap callback.
+     * The callback is set again after a break or reset signal and after an automatic reconnection,
+     * so it survives running and stopping apps.
+     * @param handler Called with each tap event.
+     * @returns A promise that resolves, once the device is reporting taps, with a function that unsubscribes
+     * the handler. When the last handler unsubscribes, the device's tap callback is cleared.
+     */
+    public async onTap(handler: (event: TapEvent) => void): Promise<() => Promise<void>> {
+        const removeHandler = this.on('tap', handler);
+        if (this.tapSubscriptions++ === 0) {
+            this.removeTapListener = this.on('data', data => {
+                if (data.byteLength === 1 && data[0] === TAP_EVENT) this.countTap();
+            });
+        }
 
-        for (let attempt = 1; attempt <= numAttempts; attempt++) {
-            // If this.device became null due to an external disconnect event handled by handleDisconnect
-            if (!this.device) {
-                console.warn(`Device (id: ${currentDeviceToConnect.id}) was disconnected externally during connection attempts.`);
-                lastError = lastError || new Error(`Device disconnected externally during connection attempt ${attempt}.`);
-                break; // Exit retry loop as the device instance is no longer valid.
+        let subscribed = true;
+        const unsubscribe = async () => {
+            if (!subscribed) return;
+            subscribed = false;
+            removeHandler();
+            if (--this.tapSubscriptions > 0) return;
+            this.removeTapListener?.();
+            this.removeTapListener = undefined;
+            clearTimeout(this.tapTimeoutId);
+            this.pendingTaps = 0;
+            if (this.isConnected()) {
+                await this.sendLua("frame.imu.tap_callback(nil);print(1)", { awaitPrint: true });
             }
-
-            try {
-                console.log(`Connection attempt ${attempt} of ${numAttempts} to device '${currentDeviceToConnect.name || currentDeviceToConnect.id}'...`);
-                await this._attemptConnection(); // Uses this.device internally
-                console.log(`Successfully connected to ${currentDeviceToConnect.name || currentDeviceToConnect.id} on attempt ${attempt}.`);
-                return currentDeviceToConnect.name || currentDeviceToConnect.id || "Unknown Device";
-            } catch (error) {
-                lastError = error;
-                console.error(`Attempt ${attempt} to connect to '${currentDeviceToConnect.name || currentDeviceToConnect.id}' failed:`, error);
-
-                // Check if it's the specific retryable error
-                const isRetryableError = error instanceof Error &&
-                                         error.name === 'NetworkError' && // DOMException name
-                                         (error.message.includes('Connection attempt failed.') ||
-                                          error.message.includes('GATT operation failed for unknown reason.') ||
-                                          error.message.includes('GATT Server is disconnected.') || // Potentially retryable if transient
-                                          error.message.includes('Bluetooth device is already connected.') // Can happen, usually resolves
-                                         );
-
-                if (isRetryableError && attempt < numAttempts) {
-                    console.log(`Retryable error encountered. Retrying in ${retryDelayMs / 1000}s...`);
-                    await new Promise(resolve => setTimeout(resolve, retryDelayMs));
-                    // _attemptConnection's catch block should have cleaned up resources for the next attempt
-                    // (e.g., disconnected GATT if it was connected during the failed attempt).
-                } else {
-                    console.log("Non-retryable error or max attempts reached. Aborting connection process.");
-                    break; // Exit loop to proceed to final cleanup and throw
-                }
+        };
+        try {
+            await this.armEvents();
+        } catch (error) {
+            subscribed = false;
+            removeHandler();
+            if (--this.tapSubscriptions === 0) {
+                this.removeTapListener?.();
+                this.removeTapListener = undefined;
             }
+            throw error;
         }
+        return unsubscribe;
+    }
 
-        // If loop finishes, all attempts failed or a non-retryable/external error occurred.
-        console.error(`Failed to connect to device '${currentDeviceToConnect.name || currentDeviceToConnect.id}' after ${numAttempts} attempts or due to external disconnection.`);
-
-        // Final cleanup:
-        // Remove the specific listener from the device we were working with.
-        currentDeviceToConnect.removeEventListener('gattserverdisconnected', this.handleDisconnect);
-
-        // If gatt was connected on currentDeviceToConnect (e.g. _attemptConnection failed after gatt.connect but before full setup)
-        // and _attemptConnection's cleanup didn't run or fully succeed, or if it was connected from a previous session.
-        // Note: this.device.gatt.disconnect() in _attemptConnection's catch handles attempt-specific disconnects.
-        // This is a final safeguard.
-        if (currentDeviceToConnect.gatt?.connected) {
-            currentDeviceToConnect.gatt.disconnect();
+    /**
+     * Streams readings of the Frame IMU: head orientation and the raw accelerometer and compass values.
+     * The host asks for a reading every `intervalMs`, each as a queued command answered by a compact binary
+     * data packet, so the stream shares the link fairly with other commands. The first reading installs a
+     * small event script on the device, and so does the next one after a reset has removed it.
+     * @param options Optional configuration for the stream.
+     * @param options.intervalMs The time in milliseconds between readings. Defaults to 100ms.
+     * @returns An async iterator of readings. A reading that fails is skipped. The stream ends on a disconnect,
+     * or if the event script can't be installed (the error is reported through the `error` event); breaking out of a `for await` loop stops polling.
+     * @throws Error if the interval is not a positive number.
+     */
+    public streamImu(options: ImuStreamOptions = {}): AsyncIterableIterator<ImuReading> {
+        const { intervalMs = 100 } = options;
+        if (!(intervalMs > 0)) {
+            throw new Error(`Interval must be a positive number of milliseconds, got ${intervalMs}`);
         }
 
-        // Clear all class state properties as in the original catch block if connection ultimately fails.
-        this.server = undefined;
-        this.txCharacteristic = undefined;
-        this.rxCharacteristic = undefined; // Listeners on rxCharacteristic are managed by _attemptConnection
+        return eventStream<ImuReading>((push, end) => {
+            let stopped = false;
+            let timeoutId: NodeJS.Timeout | undefined;
+            const poll = async () => {
+                try {
+                    push(await this.readImu());
+                } catch (error) {
+                    if (stopped) return;
+                    if (error instanceof FrameLuaError) {
+                        // The event script is gone, e.g. after a reset: reinstall it and carry on
+                        try {
+                            await this.armEvents();
+                        } catch (armError) {
+                            this.reportError(armError instanceof Error ? armError : new Error(String(armError)));
+                            end();
+                            return;
+                        }
+                    } else {
+                        this.logger.warn("IMU reading failed:", error);
+                    }
+                }
+                if (!stopped) timeoutId = setTimeout(poll, intervalMs);
+            };
+            const removeDisconnect = this.on('disconnect', end);
+            poll();
+            return () => {
+                stopped = true;
+                clearTimeout(timeoutId);
+                removeDisconnect();
+            };
+        });
+    }
 
-        // Crucially, clear this.device so a subsequent call to connect() re-prompts the user for a device.
-        // This happens regardless of whether currentDeviceToConnect was the same as this.device at this point
-        // (it should be, unless handleDisconnect cleared this.device).
-        this.device = undefined;
+    /**
+     * Asks the device for one IMU reading.
+     */
+    private async readImu(): Promise<ImuReading> {
+        const lua = "_evt.imu()";
+        const reconnection = this.pendingReconnection();
+        if (reconnection) await reconnection;
+        const data = await this.commandQueue.enqueue<Uint8Array>('data', () => this.transmit(new TextEncoder().encode(lua)), {
+            timeout: 2000,
+            priority: 0,
+            source: lua,
+            accepts: data => data instanceof Uint8Array && data.byteLength === 19 && data[0] === IMU_EVENT,
+        });
+        return decodeImuReading(data);
+    }
 
-        if (lastError) {
-            throw lastError;
-        } else {
-            // This case should ideally not be reached if numAttempts >= 1, as lastError would be set.
-            throw new Error(`Failed to connect to ${currentDeviceToConnect.name || currentDeviceToConnect.id} after ${numAttempts} attempts. No specific error recorded, or device disconnected externally.`);
-        }
+    private countTap() {
+        this.pendingTaps++;
+        clearTimeout(this.tapTimeoutId);
+        this.tapTimeoutId = setTimeout(() => {
+            const count = this.pendingTaps;
+            this.pendingTaps = 0;
+            this.emit('tap', { count, time: Date.now() });
+        }, FrameBle.MULTI_TAP_WINDOW_MS);
     }
 
     /**
-     * Disconnects from the currently connected Frame device.
-     * If no device is connected, this method does nothing.
-     * It also triggers the `handleDisconnect` cleanup logic if not connected,
-     * or relies on the 'gattserverdisconnected' event if connected.
-     * @returns A promise that resolves once the disconnection process has been initiated, or immediately if already disconnected.
+     * Installs the event script if needed and, while anyone is subscribed to taps, sets it as the tap callback.
      */
-    public async disconnect(): Promise<void> {
-        if (this.device && this.device.gatt?.connected) {
-            this.device.gatt.disconnect();
-        } else {
-            this.handleDisconnect(); // handleDisconnect is typically called by the 'gattserverdisconnected' event. Calling it here ensures immediate state cleanup if the event is delayed or not fired.
+    private async armEvents() {
+        await this.installLuaHelper('_evt', EVENTS_LUA, "event");
+        if (this.tapSubscriptions > 0) {
+            await this.sendLua("frame.imu.tap_callback(_evt.tap);print(1)", { awaitPrint: true });
         }
     }
 
     /**
-     * Checks if the Frame device is currently connected.
-     * @returns True if the device is connected, false otherwise.
+     * Re-arms tap events after a break or reset signal, which may have stopped the app that replaced the
+     * callback or cleared the Lua state. Runs in the background, since the signal may be sent by a queued command.
+     * During the handshake or a reconnection, `reconnect()` re-arms instead.
      */
-    public isConnected(): boolean {
-        return !!(this.device && this.device.gatt && this.device.gatt.connected);
+    private rearmEventsAfterSignal() {
+        if (this.tapSubscriptions === 0 || !this.sessionReady || this.restoringSession) return;
+        this.armEvents().catch(error => {
+            this.logger.warn("Failed to re-arm tap events:", error);
+        });
     }
 
     /**
-     * Gets the maximum payload size for a single BLE transmission.
-     * This value is determined after device connection.
-     * For Lua strings, the full `maxPayload` can be used.
-     * For data packets (which include a 0x01 prefix byte), the effective payload is `maxPayload - 1`.
-     * @param isLua If true, returns the max payload for Lua strings. Otherwise, for data packets.
-     * @returns The maximum payload size in bytes.
+     * Installs a Lua helper script on the device unless its global table already exists.
+     * @param globalName The global the script defines.
+     * @param lua The script.
+     * @param description What the script does, for the debug log.
      */
-    public getMaxPayload(isLua: boolean): number {
-        return isLua ? this.maxPayload : this.maxPayload - 1;
+    private async installLuaHelper(globalName: string, lua: string, description: string) {
+        const installed = await this.sendLua(`print(${globalName} and 1 or 0)`, { awaitPrint: true });
+        if (installed !== "1") {
+            this.logger.debug(`Installing ${description} script...`);
+            await this.evalLua(lua);
+        }
+    }
+
+    private static parseNumber(value: string | undefined, description: string): number {
+        const number = parseFloat(value ?? "");
+        if (isNaN(number)) {
+            throw new Error(`Unexpected ${description} from device: ${value}`);
+        }
+        return number;
+    }
+
+    /**
+     * Starts or stops recording every packet sent to and received from the device.
+     * The recorder's trace can be exported with `JSON.stringify` and replayed with a `ReplayTransport`.
+     * @param recorder The recorder to capture packets with, or undefined to stop recording.
+     */
+    public setTraceRecorder(recorder: TraceRecorder | undefined): void {
+        this.traceRecorder = recorder;
     }
 
-    private async transmit(data: Uint8Array, showMe = false) {
-        if (!this.txCharacteristic) {
+    private async transmit(data: Uint8Array, showMe = false, withoutResponse = false) {
+        if (!this.transport.isConnected()) {
             throw new Error("Not connected or TX characteristic not available.");
         }
         if (data.byteLength > this.maxPayload) {
             throw new Error(`Payload length: ${data.byteLength} exceeds maximum BLE packet size: ${this.maxPayload}`);
         }
         if (showMe) {
-            console.log("Transmitting (hex):", Array.from(data).map(b => b.toString(16).padStart(2, '0')).join(' '));
+            this.logger.info("Transmitting (hex):", Array.from(data).map(b => b.toString(16).padStart(2, '0')).join(' '));
+        }
+        this.traceRecorder?.record('tx', data);
+        if (withoutResponse && this.transport.writeWithoutResponse) {
+            await this.transport.writeWithoutResponse(data);
+        } else {
+            await this.transport.write(data);
         }
-        await this.txCharacteristic.writeValueWithResponse(data);
     }
 
     /**
      * Sends a Lua command string to the Frame device.
+     *
+     * Commands that await a print response are queued and sent one at a time, so each
+     * caller receives the print produced by its own command. Commands that don't await
+     * a response are sent immediately.
      * @param str The Lua command string to send.
      * @param options Optional configuration for sending the Lua command.
-     * @param options.showMe If true, logs the transmitted data (hex format) to the console. Defaults to false.
+     * @param options.showMe If true, logs the transmitted data (hex format) to the logger. Defaults to false.
      * @param options.awaitPrint If true, waits for a print response from the device. Defaults to false.
-     * @param options.timeout The timeout in milliseconds to wait for a print response if `awaitPrint` is true. Defaults to 5000ms.
+     * @param options.timeout The timeout in milliseconds to wait for a print response if `awaitPrint` is true, measured from when the command is sent. Defaults to 5000ms.
+     * @param options.priority If `awaitPrint` is true, queued commands with a higher priority are sent first. Defaults to 0.
      * @returns A promise that resolves with the print response string if `awaitPrint` is true, or void otherwise.
-     * @throws Error if the Lua string payload is too large or if a timeout occurs while awaiting a print response.
+     * @throws FrameLuaError if `awaitPrint` is true and the device reports a Lua error for the command instead of printing.
+     * @throws Error if the Lua string payload is too large, if a timeout occurs while awaiting a print response, or if the device disconnects first.
      */
     public async sendLua(
         str: string,
@@ -395,45 +1471,40 @@ export class FrameBle {
             showMe?: boolean;
             awaitPrint?: boolean;
             timeout?: number;
+            priority?: number;
         } = {}
     ): Promise<string | void> {
-        const { showMe = false, awaitPrint = false, timeout = 5000 } = options; // Default values documented
+        const { showMe = false, awaitPrint = false, timeout = 5000, priority = 0 } = options; // Default values documented
+        const reconnection = this.pendingReconnection();
+        if (reconnection) await reconnection;
         const encodedString = new TextEncoder().encode(str);
         if (encodedString.byteLength > this.getMaxPayload(true)) {
              throw new Error(`Lua string payload (${encodedString.byteLength} bytes) is too large for max Lua payload (${this.getMaxPayload(true)} bytes).`);
         }
 
+        this.recentLua.push(str);
+        if (this.recentLua.length > 16) this.recentLua.shift();
+
         if (awaitPrint) {
-            if (this.printTimeoutId) clearTimeout(this.printTimeoutId);
-            this.awaitingPrintResponse = true;
-            this.printResponsePromise = new Promise<string>((resolve, reject) => {
-                this.printResolve = resolve;
-                this.printTimeoutId = setTimeout(() => {
-                    if (this.awaitingPrintResponse) {
-                        this.awaitingPrintResponse = false;
-                        this.printResolve = undefined;
-                        reject(new Error(`Device didn't respond with a print within ${timeout}ms.`));
-                    }
-                }, timeout);
-            }).finally(() => {
-                if (this.printTimeoutId) {
-                    clearTimeout(this.printTimeoutId);
-                    this.printTimeoutId = undefined;
-                }
-            });
+            return this.commandQueue.enqueue<string>('print', () => this.transmit(encodedString, showMe), { timeout, priority, source: str });
         }
-
         await this.transmit(encodedString, showMe);
-        if (awaitPrint) return this.printResponsePromise;
     }
 
     /**
      * Sends raw data to the device. The data is prefixed with a `0x01` byte to distinguish it from Lua commands.
+     *
+     * Sends that await a data response are queued and sent one at a time, so each
+     * caller receives the data produced by its own send. Sends that don't await
+     * a response are transmitted immediately.
      * @param data The raw application payload to send as a Uint8Array. This is the actual data without the prefix.
      * @param options Optional configuration for sending data.
-     * @param options.showMe If true, logs the transmitted data (including prefix, hex format) to the console. Defaults to false.
+     * @param options.showMe If true, logs the transmitted data (including prefix, hex format) to the logger. Defaults to false.
      * @param options.awaitData If true, waits for a data response from the device. Defaults to false.
-     * @param options.timeout The timeout in milliseconds to wait for a data response if `awaitData` is true. Defaults to 5000ms.
+     * @param options.timeout The timeout in milliseconds to wait for a data response if `awaitData` is true, measured from when the data is sent. Defaults to 5000ms.
+     * @param options.priority If `awaitData` is true, queued sends with a higher priority are transmitted first. Defaults to 0.
+     * @param options.accepts If `awaitData` is true, recognises the response, so other data packets arriving meanwhile
+     * (e.g. events from a running app) are not taken for it. Defaults to accepting the next data packet.
      * @returns A promise that resolves with the Uint8Array data response if `awaitData` is true, or void otherwise.
      * @throws Error if not connected, if TX characteristic is not available, or if the data payload is too large.
      */
@@ -443,11 +1514,15 @@ export class FrameBle {
             showMe?: boolean;
             awaitData?: boolean;
             timeout?: number;
+            priority?: number;
+            accepts?: (data: Uint8Array) => boolean;
         } = {}
-    ): Promise<Uint8Array | void> { // Updated return type
-        const { showMe = false, awaitData = false, timeout = 5000 } = options; // Default values documented
+    ): Promise<Uint8Array | void> {
+        const { showMe = false, awaitData = false, timeout = 5000, priority = 0, accepts } = options; // Default values documented
+        const reconnection = this.pendingReconnection();
+        if (reconnection) await reconnection;
 
-        if (!this.txCharacteristic) {
+        if (!this.transport.isConnected()) {
             throw new Error("Not connected or TX characteristic not available.");
         }
         if (data.byteLength > this.getMaxPayload(false)) {
@@ -459,85 +1534,171 @@ export class FrameBle {
         combinedData.set(prefix, 0);
         combinedData.set(data, prefix.length);
 
-        let dataTimeoutId: NodeJS.Timeout | undefined;
-
         if (awaitData) {
-            this.awaitingDataResponse = true;
-            // Ensure the promise type matches the updated dataResolve type
-            this.dataResponsePromise = new Promise<Uint8Array>((resolve, reject) => {
-                this.dataResolve = resolve; // dataResolve expects Uint8Array
-                dataTimeoutId = setTimeout(() => {
-                    if (this.awaitingDataResponse) {
-                        this.awaitingDataResponse = false;
-                        this.dataResolve = undefined;
-                        reject(new Error(`Device didn't respond with data within ${timeout}ms.`));
-                    }
-                }, timeout);
-            }).finally(() => {
-                if (dataTimeoutId) clearTimeout(dataTimeoutId);
+            return this.commandQueue.enqueue<Uint8Array>('data', () => this.transmit(combinedData, showMe), {
+                timeout,
+                priority,
+                accepts: accepts && (data => data instanceof Uint8Array && accepts(data)),
             });
         }
-
         await this.transmit(combinedData, showMe);
-        if (awaitData) return this.dataResponsePromise; // Returns Promise<Uint8Array>
     }
 
     /**
      * Sends a reset signal (0x04) to the Frame device.
      * This typically causes the device to restart its Lua environment.
-     * @param showMe If true, logs the transmitted signal (hex format) to the console. Defaults to false.
+     * The signal is sent immediately, ahead of any queued commands.
+     * @param showMe If true, logs the transmitted signal (hex format) to the logger. Defaults to false.
      * @returns A promise that resolves after a short delay post-transmission.
      */
     public async sendResetSignal(showMe = false): Promise<void> {
+        const reconnection = this.pendingReconnection();
+        if (reconnection) await reconnection;
         const signal = new Uint8Array([0x04]);
         await this.transmit(signal, showMe);
         await new Promise(resolve => setTimeout(resolve, 200)); // Short delay
+        this.rearmEventsAfterSignal();
     }
 
     /**
      * Sends a break signal (0x03) to the Frame device.
      * This typically interrupts any currently running Lua script on the device.
-     * @param showMe If true, logs the transmitted signal (hex format) to the console. Defaults to false.
+     * The signal is sent immediately, ahead of any queued commands.
+     * @param showMe If true, logs the transmitted signal (hex format) to the logger. Defaults to false.
      * @returns A promise that resolves after a short delay post-transmission.
      */
     public async sendBreakSignal(showMe = false): Promise<void> {
+        const reconnection = this.pendingReconnection();
+        if (reconnection) await reconnection;
         const signal = new Uint8Array([0x03]);
         await this.transmit(signal, showMe);
         await new Promise(resolve => setTimeout(resolve, 200)); // Short delay
+        this.rearmEventsAfterSignal();
     }
 
     /**
      * Uploads content to a file on the Frame device by sending Lua commands.
      * The content is escaped and chunked to fit within payload limits.
-     * @param content The string content to write to the file.
+     * @param content The string content to write to the file (the Lua source, with `minify`).
      * @param frameFilePath The path to the file on the Frame device. Defaults to "main.lua".
+     * @param options Optional configuration for the upload.
+     * @param options.onProgress Called after each chunk is written with the number of bytes of the file written so far and its total size.
+     * @param options.signal Aborts the upload once the chunk in flight has been written; the file is then closed and the partial file removed.
+     * @param options.minify If true (or the options for `minifyLua`), the content is Lua source that is minified before
+     * it is uploaded. Locations in the file that the device prints, e.g. in error messages, are then mapped back to
+     * lines of the source. Progress is reported in bytes of the minified file. Defaults to false.
      * @returns A promise that resolves when the file upload is complete.
-     * @throws Error if any step of the file upload process fails (e.g., opening file, writing chunk).
+     * @throws FrameLuaError if the device reports a Lua error (e.g. the file can't be opened).
+     * @throws The signal's abort reason if the upload is aborted.
+     * @throws Error if the content can't be minified, or if any other step of the file upload process fails (e.g., opening file, writing chunk).
      */
-    public async uploadFileFromString(content: string, frameFilePath = "main.lua"): Promise<void> {
-        let escapedContent = content.replace(/\r/g, "")
-                                  .replace(/\\/g, "\\\\")
-                                  .replace(/\n/g, "\\n")
-                                  .replace(/\t/g, "\\t")
-                                  .replace(/'/g, "\\'")
-                                  .replace(/"/g, '\\"');
+    public async uploadFileFromString(
+        content: string,
+        frameFilePath = "main.lua",
+        options: {
+            onProgress?: (bytesSent: number, totalBytes: number) => void;
+            signal?: AbortSignal;
+            minify?: boolean | LuaMinifyOptions;
+        } = {}
+    ): Promise<void> {
+        const { onProgress, signal, minify = false } = options;
+        FrameBle.throwIfAborted(signal);
+        const minified = minify ? minifyLua(content, minify === true ? {} : minify) : undefined;
+        const fileContent = minified?.code ?? content;
+        const escapedContent = FrameBle.escapeLuaString(fileContent);
+        const encoder = new TextEncoder();
+        // the size of the file on the device (carriage returns are dropped by escaping)
+        const totalBytes = encoder.encode(fileContent.replace(/\r/g, "")).byteLength;
+        let bytesSent = 0;
 
         const openResponse = await this.sendLua(`f=frame.file.open('${frameFilePath}','w');print(1)`, {awaitPrint: true});
         if (openResponse !== "1") {
             throw new Error(`Failed to open file ${frameFilePath} on device. Response: ${openResponse}`);
         }
 
-        const luaCommandOverhead = `f:write("");print(1)`.length;
+        await this.sendEscapedChunks(
+            escapedContent,
+            chunk => `f:write("${chunk}");print(1)`,
+            async () => {
+                const removePartialFile = signal?.aborted ? `pcall(frame.file.remove,'${FrameBle.escapeLuaString(frameFilePath)}');` : "";
+                await this.sendLua(`f:close();${removePartialFile}print(nil)`, {awaitPrint: true});
+            },
+            frameFilePath,
+            {
+                signal,
+                onChunkSent: chunk => {
+                    // chunks never split an escape sequence, and each escape sequence stands for one character
+                    bytesSent += encoder.encode(chunk.replace(/\\(.)/g, "$1")).byteLength;
+                    onProgress?.(bytesSent, totalBytes);
+                },
+            });
+        await this.sendLua("f:close();print(nil)", {awaitPrint: true});
+        this.setSourceLineMap(frameFilePath, minified?.lineMap);
+    }
+
+    /**
+     * Throws the signal's abort reason if it has been aborted.
+     */
+    private static throwIfAborted(signal: AbortSignal | undefined) {
+        if (signal?.aborted) {
+            throw signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+        }
+    }
+
+    /**
+     * Escapes a string so it can be placed between double or single quotes in a Lua string literal.
+     * Carriage returns are dropped.
+     */
+    private static escapeLuaString(content: string): string {
+        return content.replace(/\r/g, "")
+                      .replace(/\\/g, "\\\\")
+                      .replace(/\n/g, "\\n")
+                      .replace(/\t/g, "\\t")
+                      .replace(/'/g, "\\'")
+                      .replace(/"/g, '\\"');
+    }
+
+    /**
+     * Sends escaped string content to the device in chunks that fit in a single Lua packet,
+     * never splitting an escape sequence across chunks.
+     * Each chunk command must print 1 on success.
+     * @param escapedContent Content already escaped with `escapeLuaString`.
+     * @param makeCommand Builds the Lua command that consumes one chunk.
+     * @param cleanup Called before throwing if a chunk can't be sent or the transfer is aborted.
+     * @param target Description of the destination, used in error messages.
+     * @param options.signal Aborts the transfer before the next chunk is sent.
+     * @param options.onChunkSent Called with each chunk once the device has consumed it.
+     */
+    private async sendEscapedChunks(
+        escapedContent: string,
+        makeCommand: (chunk: string) => string,
+        cleanup: () => Promise<void>,
+        target: string,
+        options: { signal?: AbortSignal; onChunkSent?: (chunk: string) => void } = {}
+    ): Promise<void> {
+        const { signal, onChunkSent } = options;
+        const encoder = new TextEncoder();
+        const luaCommandOverhead = encoder.encode(makeCommand("")).byteLength;
         const maxChunkSize = this.getMaxPayload(true) - luaCommandOverhead;
 
         if (maxChunkSize <= 0) {
+            await cleanup();
             throw new Error("Max payload size too small for file upload operations.");
         }
 
         let i = 0;
         while (i < escapedContent.length) {
+            if (signal?.aborted) {
+                await cleanup();
+                FrameBle.throwIfAborted(signal);
+            }
             let currentChunkSize = Math.min(maxChunkSize, escapedContent.length - i);
             let chunk = escapedContent.substring(i, i + currentChunkSize);
+            // the payload size is in bytes, and non-ASCII characters take several (surrogate pairs stay together)
+            while (currentChunkSize > 1 && (encoder.encode(chunk).byteLength > maxChunkSize || /[\uD800-\uDBFF]$/.test(chunk))) {
+                currentChunkSize--;
+                chunk = escapedContent.substring(i, i + currentChunkSize);
+            }
 
             while (chunk.endsWith("\\")) {
                 let trailingSlashes = 0;
@@ -549,7 +1710,7 @@ export class FrameBle {
                         currentChunkSize--;
                         chunk = escapedContent.substring(i, i + currentChunkSize);
                     } else {
-                        await this.sendLua("f:close();print(nil)", {awaitPrint: true});
+                        await cleanup();
                         throw new Error("Cannot safely chunk content due to isolated escape character at chunk boundary.");
                     }
                 } else {
@@ -557,14 +1718,20 @@ export class FrameBle {
                 }
             }
 
-            const writeResponse = await this.sendLua(`f:write("${chunk}");print(1)`, {awaitPrint: true});
+            let writeResponse;
+            try {
+                writeResponse = await this.sendLua(makeCommand(chunk), {awaitPrint: true});
+            } catch (error) {
+                if (error instanceof FrameLuaError) await cleanup();
+                throw error;
+            }
             if (writeResponse !== "1") {
-                 await this.sendLua("f:close();print(nil)", {awaitPrint: true});
-                throw new Error(`Failed to write chunk to ${frameFilePath}. Response: ${writeResponse}`);
+                await cleanup();
+                throw new Error(`Failed to write chunk to ${target}. Response: ${writeResponse}`);
             }
             i += currentChunkSize;
+            onChunkSent?.(chunk);
         }
-        await this.sendLua("f:close();print(nil)", {awaitPrint: true});
     }
 
     /**
@@ -572,10 +1739,471 @@ export class FrameBle {
      * Uploads file content to a specified path on the Frame device.
      * @param fileContent The string content of the file to upload.
      * @param frameFilePath The path on the Frame device where the file will be saved. Defaults to "main.lua".
+     * @param options Optional progress callback, abort signal and minification, as for `uploadFileFromString`.
      * @returns A promise that resolves when the file upload is complete.
      */
-    public async uploadFile(fileContent: string, frameFilePath = "main.lua"): Promise<void> {
-        await this.uploadFileFromString(fileContent, frameFilePath);
+    public async uploadFile(
+        fileContent: string,
+        frameFilePath = "main.lua",
+        options: Parameters<FrameBle["uploadFileFromString"]>[2] = {}
+    ): Promise<void> {
+        await this.uploadFileFromString(fileContent, frameFilePath, options);
+    }
+
+    /**
+     * Uploads arbitrary bytes to a file on the Frame device and verifies the result.
+     *
+     * A small receiver is installed as the device's data receive callback (replacing any existing one).
+     * The bytes are then sent over the 0x01 data channel in sequence-numbered chunks, each acknowledged
+     * by the device and retried if no acknowledgement arrives in time. Finally the device reads the file
+     * back and reports its length and CRC-32, which must match the data that was sent.
+     * @param data The bytes to write to the file.
+     * @param frameFilePath The path to the file on the Frame device.
+     * @param options Optional configuration for the upload.
+     * @param options.chunkTimeout The timeout in milliseconds to wait for each chunk to be acknowledged. Defaults to 2000ms.
+     * @param options.maxRetries The number of times a chunk is resent before the upload fails. Defaults to 3.
+     * @param options.compress If true, the data is sent as an LZ4 frame and decompressed on the device before it is
+     * written, unless compression doesn't make it smaller. The whole compressed file is held in device memory, and the
+     * device's `frame.compression.process_function` is replaced. Defaults to false.
+     * @returns A promise that resolves when the file has been written and verified.
+     * @throws FrameVerificationError if the file on the device doesn't match the data sent.
+     * @throws Error if the receiver can't be installed or a chunk isn't acknowledged after all retries.
+     */
+    public async uploadFileFromBytes(
+        data: Uint8Array,
+        frameFilePath: string,
+        options: { chunkTimeout?: number; maxRetries?: number; compress?: boolean } = {}
+    ): Promise<void> {
+        const { chunkTimeout = 2000, maxRetries = 3, compress = false } = options;
+        const compressed = compress ? compressLz4Frame(data) : undefined;
+        const useCompression = compressed !== undefined && compressed.byteLength < data.byteLength;
+        const sent = useCompression ? compressed : data;
+        const chunkSize = this.getMaxPayload(false) - 2; // 16-bit sequence number header
+        const numChunks = Math.ceil(sent.byteLength / chunkSize);
+        if (chunkSize <= 0) {
+            throw new Error("Max payload size too small for file upload operations.");
+        }
+        if (numChunks > 0xFFFF) {
+            throw new Error(`File of ${sent.byteLength} bytes needs too many chunks (${numChunks}) for upload.`);
+        }
+
+        // Chunks are written only if they carry the next expected sequence number, but always acknowledged,
+        // so a chunk resent after a lost acknowledgement is not written twice.
+        // Compressed chunks are collected in _ub.z and decompressed into the file before verification.
+        const installResponse = await this.evalLua(
+            "local t={}\n" +
+            "for i=0,255 do local c=i for _=1,8 do if c&1==1 then c=(c>>1)~0xEDB88320 else c=c>>1 end end t[i]=c end\n" +
+            `_ub={t=t,n=0,f=frame.file.open('${FrameBle.escapeLuaString(frameFilePath)}','w')${useCompression ? `,z={},s=${data.byteLength}` : ""}}\n` +
+            "frame.bluetooth.receive_callback(function(d)\n" +
+            "  local seq=(d:byte(1)<<8)|d:byte(2)\n" +
+            "  if seq==_ub.n then if _ub.z then _ub.z[#_ub.z+1]=d:sub(3) else _ub.f:write(d:sub(3)) end _ub.n=_ub.n+1 end\n" +
+            "  frame.bluetooth.send(d:sub(1,2))\n" +
+            "end)\n" +
+            "function _ub.verify(p)\n" +
+            "  if _ub.z then\n" +
+            "    local o={}\n" +
+            "    frame.compression.process_function(function(s) o[#o+1]=s end)\n" +
+            "    frame.compression.decompress(table.concat(_ub.z),1024)\n" +
+            "    _ub.f:write(table.concat(o):sub(1,_ub.s))\n" +
+            "  end\n" +
+            "  _ub.f:close()\n" +
+            "  frame.bluetooth.receive_callback(nil)\n" +
+            "  local f=frame.file.open(p,'r') local c=0xFFFFFFFF local n=0\n" +
+            "  while true do local s=f:read(128) if not s or #s==0 then break end n=n+#s for i=1,#s do c=_ub.t[(c~s:byte(i))&0xFF]~((c>>8)&0xFFFFFF) end end\n" +
+            "  f:close()\n" +
+            "  _ub=nil\n" +
+            "  print(n..','..(c~0xFFFFFFFF))\n" +
+            "end\n" +
+            "print(1)\n");
+        if (installResponse !== "1") {
+            throw new Error(`Failed to install upload receiver for ${frameFilePath}. Response: ${installResponse}`);
+        }
+        // the file has been truncated, so any minified source it held is gone
+        this.setSourceLineMap(frameFilePath, undefined);
+
+        for (let seq = 0; seq < numChunks; seq++) {
+            const chunk = sent.subarray(seq * chunkSize, (seq + 1) * chunkSize);
+            const packet = new Uint8Array(2 + chunk.byteLength);
+            packet[0] = seq >> 8;
+            packet[1] = seq & 0xFF;
+            packet.set(chunk, 2);
+
+            let acknowledged = false;
+            let lastError: unknown;
+            for (let attempt = 0; attempt <= maxRetries && !acknowledged; attempt++) {
+                try {
+                    // other data packets (e.g. tap events) arriving meanwhile aren't taken for the acknowledgement
+                    await this.sendData(packet, {
+                        awaitData: true,
+                        timeout: chunkTimeout,
+                        accepts: ack => ack.byteLength === 2 && ((ack[0] << 8) | ack[1]) === seq,
+                    });
+                    acknowledged = true;
+                } catch (error) {
+                    lastError = error;
+                }
+            }
+            if (!acknowledged) {
+                await this.sendLua("_ub.f:close();frame.bluetooth.receive_callback(nil);_ub=nil");
+                throw new Error(`Failed to upload chunk ${seq + 1} of ${numChunks} to ${frameFilePath} after ${maxRetries + 1} attempts: ${lastError instanceof Error ? lastError.message : lastError}`);
+            }
+        }
+
+        const verifyResponse = await this.sendLua(`_ub.verify('${FrameBle.escapeLuaString(frameFilePath)}')`, {awaitPrint: true});
+        const [length, checksum] = (verifyResponse || "").split(",").map(Number);
+        if (length === undefined || checksum === undefined || isNaN(length) || isNaN(checksum)) {
+            throw new Error(`Unexpected verification response for ${frameFilePath}: ${verifyResponse}`);
+        }
+        const expected = { length: data.byteLength, crc32: crc32(data) };
+        const actual = { length, crc32: checksum >>> 0 };
+        if (actual.length !== expected.length || actual.crc32 !== expected.crc32) {
+            throw new FrameVerificationError(frameFilePath, expected, actual);
+        }
+    }
+
+    /**
+     * Downloads the contents of a file on the Frame device.
+     * The file is read in chunks, each sent back to the host as a data packet.
+     * @param frameFilePath The path to the file on the Frame device.
+     * @param options Optional configuration for the download.
+     * @param options.timeout The timeout in milliseconds to wait for each chunk. Defaults to 5000ms.
+     * @returns A promise that resolves with the file contents.
+     * @throws FrameFileError if the file can't be opened.
+     * @throws Error if a chunk is not received in time or has an unexpected format.
+     */
+    public async readFile(frameFilePath: string, options: { timeout?: number } = {}): Promise<Uint8Array> {
+        const { timeout = 5000 } = options;
+        const path = FrameBle.escapeLuaString(frameFilePath);
+
+        const openResponse = await this.sendLua(`local ok,f=pcall(frame.file.open,'${path}','r');if ok then _rf=f;print(1) else print(tostring(f)) end`, {awaitPrint: true});
+        if (openResponse !== "1") {
+            throw new FrameFileError(`Failed to open file ${frameFilePath} for reading`, frameFilePath, String(openResponse));
+        }
+
+        // Each chunk is sent with a leading status byte: 1 for data, 0 for end of file
+        const chunkSize = this.getMaxPayload(false) - 1;
+        const chunks: Uint8Array[] = [];
+        try {
+            while (true) {
+                const response = await this.sendLuaAwaitData(`local d=_rf:read(${chunkSize});if d and #d>0 then frame.bluetooth.send('\\1'..d) else frame.bluetooth.send('\\0') end`, timeout);
+                if (response.byteLength === 0 || response[0] > 1) {
+                    throw new Error(`Unexpected chunk while reading ${frameFilePath}.`);
+                }
+                if (response[0] === 0) break;
+                chunks.push(response.slice(1));
+            }
+        } finally {
+            await this.sendLua("_rf:close();_rf=nil;print(1)", {awaitPrint: true});
+        }
+
+        return FrameBle.concatBytes(chunks);
+    }
+
+    private static concatBytes(chunks: Uint8Array[]): Uint8Array {
+        const content = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+        let offset = 0;
+        for (const chunk of chunks) {
+            content.set(chunk, offset);
+            offset += chunk.byteLength;
+        }
+        return content;
+    }
+
+    /**
+     * Downloads the contents of a file on the Frame device and decodes it as UTF-8 text.
+     * @param frameFilePath The path to the file on the Frame device.
+     * @param options Optional configuration for the download, as for `readFile`.
+     * @returns A promise that resolves with the file contents as a string.
+     */
+    public async readFileAsString(frameFilePath: string, options: { timeout?: number } = {}): Promise<string> {
+        return new TextDecoder().decode(await this.readFile(frameFilePath, options));
+    }
+
+    /**
+     * Lists the entries of a directory on the Frame device.
+     * @param directory The directory to list. Defaults to the root directory "/".
+     * @returns A promise that resolves with the directory entries, excluding "." and "..".
+     * @throws FrameFileError if the directory can't be listed.
+     */
+    public async listDirectory(directory = "/"): Promise<FrameFileEntry[]> {
+        const path = FrameBle.escapeLuaString(directory);
+        const countResponse = await this.sendLua(`local ok,l=pcall(frame.file.listdir,'${path}');if ok then _ls=l;print(#l) else print(tostring(l)) end`, {awaitPrint: true});
+        const count = Number(countResponse);
+        if (typeof countResponse !== "string" || countResponse.length === 0 || !Number.isInteger(count)) {
+            throw new FrameFileError(`Failed to list directory ${directory}`, directory, String(countResponse));
+        }
+
+        const entries: FrameFileEntry[] = [];
+        try {
+            for (let i = 1; i <= count; i++) {
+                const entryResponse = await this.sendLua(`local e=_ls[${i}];print(e.name..'\\t'..e.size..'\\t'..e.type)`, {awaitPrint: true});
+                const [name, size, type] = (entryResponse || "").split("\t");
+                if (name === undefined || size === undefined || type === undefined) {
+                    throw new Error(`Unexpected directory entry from device: ${entryResponse}`);
+                }
+                if (name === "." || name === "..") continue;
+                // littlefs entry types: 1 = regular file, 2 = directory
+                entries.push({ name, size: parseInt(size), isDirectory: parseInt(type) === 2 });
+            }
+        } finally {
+            await this.sendLua("_ls=nil");
+        }
+        return entries;
+    }
+
+    /**
+     * Deletes a file (or empty directory) on the Frame device.
+     * @param frameFilePath The path to delete.
+     * @throws FrameFileError if the device reports an error.
+     */
+    public async deleteFile(frameFilePath: string): Promise<void> {
+        await this.runFileOperation(`frame.file.remove,'${FrameBle.escapeLuaString(frameFilePath)}'`, `delete ${frameFilePath}`, frameFilePath);
+        this.setSourceLineMap(frameFilePath, undefined);
+    }
+
+    /**
+     * Renames (or moves) a file on the Frame device.
+     * @param fromPath The current path of the file.
+     * @param toPath The new path of the file.
+     * @throws FrameFileError if the device reports an error.
+     */
+    public async renameFile(fromPath: string, toPath: string): Promise<void> {
+        await this.runFileOperation(`frame.file.rename,'${FrameBle.escapeLuaString(fromPath)}','${FrameBle.escapeLuaString(toPath)}'`, `rename ${fromPath} to ${toPath}`, fromPath);
+        const lineMap = this.sourceLineMaps.get(fromPath.replace(/^\/+/, ""));
+        this.setSourceLineMap(fromPath, undefined);
+        this.setSourceLineMap(toPath, lineMap);
+    }
+
+    /**
+     * Creates a directory on the Frame device.
+     * @param directory The path of the directory to create.
+     * @throws FrameFileError if the device reports an error (e.g. the directory already exists).
+     */
+    public async makeDirectory(directory: string): Promise<void> {
+        await this.runFileOperation(`frame.file.mkdir,'${FrameBle.escapeLuaString(directory)}'`, `create directory ${directory}`, directory);
+    }
+
+    /**
+     * Checks whether a file exists on the Frame device by trying to open it for reading.
+     * @param frameFilePath The path to check.
+     * @returns A promise that resolves with true if the file exists.
+     */
+    public async fileExists(frameFilePath: string): Promise<boolean> {
+        const response = await this.sendLua(`local ok,f=pcall(frame.file.open,'${FrameBle.escapeLuaString(frameFilePath)}','r');if ok and f then f:close();print(1) else print(0) end`, {awaitPrint: true});
+        return response === "1";
+    }
+
+    /**
+     * Deploys a multi-file Lua app, uploading only what changed since the last deployment.
+     *
+     * A manifest with the length and CRC-32 of each deployed file is kept on the device. Files whose
+     * content differs from the manifest (or that are new) are uploaded, files in the manifest that are no
+     * longer part of the app are deleted, and the manifest is rewritten last, so an interrupted deployment
+     * is completed by the next one. Any running app is interrupted with a break signal first.
+     * @param options Configuration for the deployment.
+     * @param options.files The app's files, mapping device paths (e.g. "main.lua", "lib/util.lua") to their Lua source.
+     * @param options.entry A module to (re)load with `require` once the files are in place, e.g. "frame_app".
+     * @param options.reset If true, sends a reset signal once the files are in place so `main.lua` runs. Defaults to false.
+     * @param options.manifestPath The path of the manifest on the device. Defaults to "app_manifest.txt".
+     * @param options.force If true, uploads every file regardless of the manifest. Defaults to false.
+     * @param options.minify If true (or the options for `minifyLua`), the files whose path ends with ".lua" are minified,
+     * as with `uploadFileFromString`. The manifest records the minified files. Defaults to false.
+     * @param options.onProgress Called while each file uploads with its path, the bytes written so far and its size.
+     * @param options.signal Aborts the deployment; the file being uploaded is removed and the manifest is left as it was.
+     * @returns A promise that resolves with what happened to each file.
+     * @throws FrameLuaError if the device reports an error while uploading.
+     * @throws The signal's abort reason if the deployment is aborted.
+     * @throws Error if a file can't be minified.
+     */
+    public async deployApp(options: {
+        files: Record<string, string>;
+        entry?: string;
+        reset?: boolean;
+        manifestPath?: string;
+        force?: boolean;
+        minify?: boolean | LuaMinifyOptions;
+        onProgress?: (path: string, bytesSent: number, totalBytes: number) => void;
+        signal?: AbortSignal;
+    }): Promise<DeployResult> {
+        const { files, entry, reset = false, manifestPath = "app_manifest.txt", force = false, minify = false, onProgress, signal } = options;
+        const normalize = (path: string) => path.replace(/^\/+/, "");
+        if (Object.keys(files).some(path => normalize(path) === normalize(manifestPath))) {
+            throw new Error(`App files can't include the manifest path ${manifestPath}.`);
+        }
+        // minify everything first, so a syntax error fails the deployment before anything is uploaded
+        const minified = new Map<string, MinifiedLua>();
+        for (const path of Object.keys(files)) {
+            if (minify && path.endsWith(".lua")) minified.set(path, minifyLua(files[path], minify === true ? {} : minify));
+        }
+        FrameBle.throwIfAborted(signal);
+        await this.sendBreakSignal();
+
+        const previous = await this.fileExists(manifestPath)
+            ? parseManifest(await this.readFileAsString(manifestPath))
+            : new Map<string, ManifestEntry>();
+        const next = new Map<string, ManifestEntry>();
+        const result: DeployResult = { files: [], changed: false };
+        const createdDirectories = new Set<string>();
+
+        for (const path of Object.keys(files).sort()) {
+            const content = minified.get(path)?.code ?? files[path];
+            const entryState = manifestEntry(content);
+            const known = previous.get(normalize(path));
+            next.set(normalize(path), entryState);
+            if (!force && known && known.length === entryState.length && known.crc32 === entryState.crc32) {
+                this.setSourceLineMap(path, minified.get(path)?.lineMap);
+                result.files.push({ path, status: 'unchanged' });
+                continue;
+            }
+
+            // frame.file.open can't create directories
+            const parts = normalize(path).split("/");
+            for (let depth = 1; depth < parts.length; depth++) {
+                const directory = parts.slice(0, depth).join("/");
+                if (createdDirectories.has(directory)) continue;
+                try {
+                    await this.makeDirectory(directory);
+                } catch (error) {
+                    if (!(error instanceof FrameFileError)) throw error; // already exists
+                }
+                createdDirectories.add(directory);
+            }
+            await this.uploadFileFromString(content, path, {
+                signal,
+                onProgress: onProgress && ((bytesSent, totalBytes) => onProgress(path, bytesSent, totalBytes)),
+            });
+            this.setSourceLineMap(path, minified.get(path)?.lineMap);
+            result.files.push({ path, status: known ? 'updated' : 'added' });
+            result.changed = true;
+        }
+
+        for (const path of [...previous.keys()].sort()) {
+            if (next.has(path)) continue;
+            FrameBle.throwIfAborted(signal);
+            try {
+                await this.deleteFile(path);
+            } catch (error) {
+                if (!(error instanceof FrameFileError)) throw error; // already gone
+            }
+            this.setSourceLineMap(path, undefined);
+            result.files.push({ path, status: 'deleted' });
+            result.changed = true;
+        }
+
+        if (result.changed || previous.size === 0) {
+            await this.uploadFileFromString(formatManifest(next), manifestPath);
+        }
+
+        if (reset) {
+            await this.sendResetSignal();
+        } else if (entry) {
+            const module = FrameBle.escapeLuaString(entry.replace(/\.lua$/, ""));
+            await this.sendLua(`package.loaded['${module}']=nil;require('${module}')`);
+        }
+        return result;
+    }
+
+    /**
+     * Calls a `frame.file` function in protected mode and throws if it reports an error.
+     * @param pcallArgs The function and its arguments, as passed to `pcall`.
+     * @param description Description of the operation, used in error messages.
+     * @param path The path the operation is applied to.
+     * @throws FrameFileError if the function reports an error.
+     */
+    private async runFileOperation(pcallArgs: string, description: string, path: string): Promise<void> {
+        const response = await this.sendLua(`local ok,e=pcall(${pcallArgs});print(ok and 1 or e)`, {awaitPrint: true});
+        if (response !== "1") {
+            throw new FrameFileError(`Failed to ${description}`, path, String(response));
+        }
+    }
+
+    /**
+     * Sends a Lua command that replies with a data packet (via `frame.bluetooth.send`) instead of a print,
+     * and waits for that packet through the command queue.
+     */
+    private async sendLuaAwaitData(str: string, timeout: number): Promise<Uint8Array> {
+        const reconnection = this.pendingReconnection();
+        if (reconnection) await reconnection;
+        const encodedString = new TextEncoder().encode(str);
+        if (encodedString.byteLength > this.getMaxPayload(true)) {
+            throw new Error(`Lua string payload (${encodedString.byteLength} bytes) is too large for max Lua payload (${this.getMaxPayload(true)} bytes).`);
+        }
+        return this.commandQueue.enqueue<Uint8Array>('data', () => this.transmit(encodedString), { timeout, priority: 0, source: str });
+    }
+
+    /**
+     * Evaluates a Lua snippet of any length on the Frame device and returns what it printed.
+     *
+     * The snippet is transferred into a buffer on the device in packet-sized chunks (escaped and
+     * chunked the same way as `uploadFileFromString`), then compiled and run in protected mode.
+     * Output from `print` calls inside the snippet is collected and returned as a single string,
+     * one line per call. Output longer than one packet is kept on the device and fetched in parts,
+     * the same way as the replies of `call`.
+     * @param code The Lua source to evaluate.
+     * @param options Optional configuration for the evaluation.
+     * @param options.timeout The timeout in milliseconds to wait for the snippet to finish running. Defaults to 5000ms.
+     * @returns A promise that resolves with the printed output of the snippet (empty if it printed nothing).
+     * @throws FrameLuaError if the snippet fails to compile or raises an error on the device.
+     * @throws Error if transferring the snippet fails or a timeout occurs.
+     */
+    public async evalLua(code: string, options: { timeout?: number } = {}): Promise<string> {
+        const { timeout = 5000 } = options;
+        const partSize = this.getMaxPayload(true) - 12; // leaves room for the tag and length prefix
+
+        // Embed the snippet in a long bracket string whose level doesn't occur in the code.
+        // The newline after the opening bracket is skipped by Lua.
+        let level = "";
+        while ((code + "]").includes(`]${level}]`)) level += "=";
+        const program =
+            `local src=[${level}[\n${code}]${level}]\n` +
+            "local out={}\n" +
+            "local p=print\n" +
+            "print=function(...) local t={} for i=1,select('#',...) do t[#t+1]=tostring((select(i,...))) end out[#out+1]=table.concat(t,'\\t') end\n" +
+            "local f,e=load(src,'=eval')\n" +
+            "local ok=f~=nil\n" +
+            "if ok then ok,e=pcall(f) end\n" +
+            "print=p\n" +
+            "local s\n" +
+            "if ok then s='+'..table.concat(out,'\\n') else s='-'..tostring(e) end\n" +
+            // keeps the outcome in _evr and returns it in parts that end on a UTF-8 character boundary
+            "_evr=s\n" +
+            "function _evp(i,n) local s=_evr or '' local j=i+n-1 " +
+            "while j<#s and s:byte(j+1)&192==128 do j=j-1 end " +
+            `if j>=#s then _evr=nil end return '${FrameBle.QUERY_TAG}'..s:sub(i,j) end\n` +
+            `print(#s..':'.._evp(1,${partSize}):sub(${FrameBle.QUERY_TAG.length + 1}))\n`;
+
+        const initResponse = await this.sendLua("_evb={};print(1)", {awaitPrint: true});
+        if (initResponse !== "1") {
+            throw new Error(`Failed to prepare eval buffer on device. Response: ${initResponse}`);
+        }
+        await this.sendEscapedChunks(
+            FrameBle.escapeLuaString(program),
+            chunk => `_evb[#_evb+1]="${chunk}";print(1)`,
+            async () => { await this.sendLua("_evb=nil"); },
+            "eval buffer");
+
+        const response = await this.sendLua("local f=load(table.concat(_evb));_evb=nil;f()", {awaitPrint: true, timeout});
+        const header = typeof response === "string" ? response.match(/^(\d+):/) : null;
+        if (typeof response !== "string" || !header) {
+            throw new Error(`Unexpected response from eval: ${response}`);
+        }
+        const length = parseInt(header[1]);
+        let output = response.substring(header[0].length);
+        let received = new TextEncoder().encode(output).byteLength;
+        while (received < length) {
+            const part = await this.sendTaggedLua(`print(_evp(${received + 1},${partSize}))`, { timeout });
+            if (part.length === 0) {
+                throw new Error(`Output of eval ended after ${received} of ${length} bytes.`);
+            }
+            output += part;
+            received += new TextEncoder().encode(part).byteLength;
+        }
+
+        if (output[0] === '-') {
+            const location = output.match(/^-eval:(\d+): /);
+            throw new FrameLuaError(output.substring(1), code, location ? parseInt(location[1]) : undefined);
+        }
+        return output.substring(1);
     }
 
     /**
@@ -584,11 +2212,31 @@ export class FrameBle {
      * according to a specific protocol (message code, total size header, then data chunks).
      * @param msgCode A number (0-255) representing the message type or command.
      * @param payload The Uint8Array data to send as the message payload.
-     * @param showMe If true, logs details of each transmitted packet to the console. Defaults to false.
+     * @param options Optional configuration for sending the message. Passing a boolean sets `showMe`, as in earlier versions.
+     * @param options.showMe If true, logs details of each transmitted packet to the logger. Defaults to false.
+     * @param options.onProgress Called after each packet is acknowledged with the number of payload bytes sent so far and the payload size.
+     * @param options.signal Aborts the message once the packet in flight has been acknowledged; a break signal is then sent so the device's message receiver stops waiting for the rest.
+     * @param options.windowSize The maximum number of packets in flight. Above 1, packets after the first are written without
+     * response and only the device's acknowledgements are awaited, which needs a receiver that acknowledges with the number of
+     * bytes received so far (see `MESSAGE_RECEIVER_LUA`). If the device's first acknowledgement isn't in that form, each packet
+     * is sent and acknowledged in turn as with a window size of 1. Defaults to 1.
+     * @param options.ackTimeout The timeout in milliseconds to wait for each acknowledgement. Defaults to 5000ms.
      * @returns A promise that resolves when all parts of the message have been sent and acknowledged.
-     * @throws Error if msgCode is out of range, payload is too large, or if max payload size is too small for the protocol.
+     * @throws The signal's abort reason if the message is aborted.
+     * @throws Error if msgCode is out of range, payload is too large, if max payload size is too small for the protocol, or if the device stops acknowledging.
      */
-    public async sendMessage(msgCode: number, payload: Uint8Array, showMe = false): Promise<void> {
+    public async sendMessage(
+        msgCode: number,
+        payload: Uint8Array,
+        options: boolean | {
+            showMe?: boolean;
+            onProgress?: (bytesSent: number, totalBytes: number) => void;
+            signal?: AbortSignal;
+            windowSize?: number;
+            ackTimeout?: number;
+        } = {}
+    ): Promise<void> {
+        const { showMe = false, onProgress, signal, windowSize = 1, ackTimeout = 5000 } = typeof options === 'boolean' ? { showMe: options } : options;
         const HEADER_SIZE = 2; // size_high(1), size_low(1)
         const MAX_TOTAL_PAYLOAD_SIZE = 65535;
 
@@ -607,7 +2255,11 @@ export class FrameBle {
         if (maxFirstChunkDataSize <=0 || maxSubsequentChunkDataSize <=0) {
             throw new Error("Max payload size too small for message sending protocol.");
         }
+        if (!Number.isInteger(windowSize) || windowSize < 1) {
+            throw new Error(`Window size must be a positive integer, got ${windowSize}`);
+        }
 
+        FrameBle.throwIfAborted(signal);
         let sentBytes = 0;
         const firstChunkActualDataSize = Math.min(maxFirstChunkDataSize, totalPayloadSize);
         const firstPacketDataForSendData = new Uint8Array(1 + HEADER_SIZE + firstChunkActualDataSize);
@@ -616,18 +2268,184 @@ export class FrameBle {
         firstPacketDataForSendData[2] = totalPayloadSize & 0xFF;
         firstPacketDataForSendData.set(payload.subarray(0, firstChunkActualDataSize), 1 + HEADER_SIZE);
 
-        await this.sendData(firstPacketDataForSendData, {showMe: showMe, awaitData: true});
+        const firstAck = await this.sendData(firstPacketDataForSendData, {showMe: showMe, awaitData: true, timeout: ackTimeout});
         sentBytes += firstChunkActualDataSize;
+        onProgress?.(sentBytes, totalPayloadSize);
+
+        if (windowSize > 1 && sentBytes < totalPayloadSize && FrameBle.isMessageAck(firstAck, msgCode, sentBytes)) {
+            await this.sendMessageWindow(msgCode, payload, sentBytes, maxSubsequentChunkDataSize, {showMe, onProgress, signal, windowSize, ackTimeout});
+            return;
+        }
 
         while (sentBytes < totalPayloadSize) {
+            if (signal?.aborted) {
+                await this.sendBreakSignal(showMe);
+                FrameBle.throwIfAborted(signal);
+            }
             const remaining = totalPayloadSize - sentBytes;
             const currentChunkActualDataSize = Math.min(maxSubsequentChunkDataSize, remaining);
             const subsequentPacketDataForSendData = new Uint8Array(1 + currentChunkActualDataSize);
             subsequentPacketDataForSendData[0] = msgCode;
             subsequentPacketDataForSendData.set(payload.subarray(sentBytes, sentBytes + currentChunkActualDataSize), 1);
 
-            await this.sendData(subsequentPacketDataForSendData, {showMe: showMe, awaitData: true});
+            await this.sendData(subsequentPacketDataForSendData, {showMe: showMe, awaitData: true, timeout: ackTimeout});
             sentBytes += currentChunkActualDataSize;
+            onProgress?.(sentBytes, totalPayloadSize);
+        }
+    }
+
+    /**
+     * Sends the rest of a message with up to `windowSize` packets in flight. The device acknowledges with the message code
+     * and the 16-bit big-endian number of payload bytes received so far; acknowledgements are cumulative, so the device
+     * may acknowledge every packet or only some of them.
+     * The whole send is one queued command, resolved by the acknowledgement of the last byte.
+     */
+    private async sendMessageWindow(
+        msgCode: number,
+        payload: Uint8Array,
+        startOffset: number,
+        chunkSize: number,
+        options: {
+            showMe: boolean;
+            onProgress?: (bytesSent: number, totalBytes: number) => void;
+            signal?: AbortSignal;
+            windowSize: number;
+            ackTimeout: number;
         }
+    ): Promise<void> {
+        const { showMe, onProgress, signal, windowSize, ackTimeout } = options;
+        const totalPayloadSize = payload.byteLength;
+        const packetEnds: number[] = [];
+        let ackedBytes = startOffset;
+        let onAck: (() => void) | undefined;
+
+        const removeAckListener = this.on('data', data => {
+            if (!FrameBle.isMessageAck(data, msgCode)) return;
+            const received = (data[1] << 8) | data[2];
+            if (received <= ackedBytes) return;
+            ackedBytes = received;
+            onProgress?.(ackedBytes, totalPayloadSize);
+            onAck?.();
+        });
+        const nextAck = () => new Promise<void>((resolve, reject) => {
+            const timeoutId = setTimeout(() => {
+                onAck = undefined;
+                reject(new FrameTimeoutError(`Device didn't acknowledge message ${msgCode} within ${ackTimeout}ms (${ackedBytes} of ${totalPayloadSize} bytes acknowledged).`, ackTimeout));
+            }, ackTimeout);
+            onAck = () => {
+                clearTimeout(timeoutId);
+                onAck = undefined;
+                resolve();
+            };
+        });
+
+        const sendWindow = async () => {
+            let sentBytes = startOffset;
+            while (sentBytes < totalPayloadSize) {
+                if (signal?.aborted) {
+                    await this.sendBreakSignal(showMe);
+                    FrameBle.throwIfAborted(signal);
+                }
+                while (sentBytes < totalPayloadSize && packetEnds.filter(end => end > ackedBytes).length < windowSize) {
+                    const chunkActualDataSize = Math.min(chunkSize, totalPayloadSize - sentBytes);
+                    const packet = new Uint8Array(2 + chunkActualDataSize);
+                    packet[0] = 0x01; // raw data prefix
+                    packet[1] = msgCode;
+                    packet.set(payload.subarray(sentBytes, sentBytes + chunkActualDataSize), 2);
+                    await this.transmit(packet, showMe, true);
+                    sentBytes += chunkActualDataSize;
+                    packetEnds.push(sentBytes);
+                }
+                if (sentBytes < totalPayloadSize) {
+                    await nextAck();
+                }
+            }
+        };
+
+        try {
+            const reconnection = this.pendingReconnection();
+            if (reconnection) await reconnection;
+            await this.commandQueue.enqueue<Uint8Array>('data', sendWindow, {
+                timeout: ackTimeout,
+                priority: 0,
+                accepts: data => FrameBle.isMessageAck(data, msgCode, totalPayloadSize),
+            });
+        } finally {
+            removeAckListener();
+        }
+    }
+
+    /**
+     * @returns True if `data` acknowledges a windowed message, optionally with exactly `receivedBytes` bytes received.
+     */
+    private static isMessageAck(data: Uint8Array | string | void, msgCode: number, receivedBytes?: number): data is Uint8Array {
+        return data instanceof Uint8Array && data.byteLength === 3 && data[0] === msgCode &&
+            (receivedBytes === undefined || ((data[1] << 8) | data[2]) === receivedBytes);
+    }
+
+    /**
+     * Measures how fast `sendMessage` gets data to the device with different window sizes, to pick one for a given phone and device.
+     * A receiver that acknowledges and discards each packet temporarily replaces the device's data receive callback,
+     * so run this while no app is running; the callback is cleared afterwards.
+     * @param options Optional configuration for the benchmark.
+     * @param options.bytes The size of the test message in bytes. Defaults to 8192.
+     * @param options.windowSizes The window sizes to measure. Defaults to [1, 2, 4, 8, 16].
+     * @param options.msgCode The message code of the test message. Defaults to 0xFE.
+     * @returns A promise that resolves with the time taken and throughput for each window size.
+     * @throws Error if the receiver can't be installed or a test message isn't acknowledged.
+     */
+    public async benchmarkThroughput(
+        options: {
+            bytes?: number;
+            windowSizes?: number[];
+            msgCode?: number;
+        } = {}
+    ): Promise<ThroughputResult[]> {
+        const { bytes = 8192, windowSizes = [1, 2, 4, 8, 16], msgCode = 0xFE } = options;
+        const payload = new Uint8Array(bytes);
+        for (let i = 0; i < bytes; i++) payload[i] = i & 0xFF;
+
+        await this.sendBreakSignal();
+        await this.evalLua(FrameBle.BENCHMARK_RECEIVER_LUA);
+        const results: ThroughputResult[] = [];
+        try {
+            for (const windowSize of windowSizes) {
+                const start = Date.now();
+                await this.sendMessage(msgCode, payload, { windowSize });
+                const durationMs = Math.max(Date.now() - start, 1);
+                results.push({ windowSize, bytes, durationMs, bytesPerSecond: Math.round(bytes * 1000 / durationMs) });
+                this.logger.debug(`Window size ${windowSize}: ${bytes} bytes in ${durationMs}ms`);
+            }
+        } finally {
+            await this.sendLua("frame.bluetooth.receive_callback(nil)");
+        }
+        return results;
+    }
+
+    /**
+     * Sends a multi-packet message compressed as an LZ4 frame, using the same framing as `sendMessage`.
+     * The payload is sent uncompressed instead if compression doesn't make it smaller.
+     * The device decodes it with the Lua module in `COMPRESSED_MESSAGE_LUA`, which must be deployed and fed
+     * the app's data packets.
+     * @param msgCode A number (0-255) representing the message type or command.
+     * @param payload The Uint8Array data to send as the (uncompressed) message payload.
+     * @param options Optional configuration for sending the message, as for `sendMessage`.
+     * `onProgress` counts the bytes of the encoded message rather than of the payload.
+     * @returns A promise that resolves when all parts of the message have been sent and acknowledged.
+     * @throws The signal's abort reason if the message is aborted.
+     * @throws Error if msgCode is out of range or the encoded message is too large.
+     */
+    public async sendCompressedMessage(
+        msgCode: number,
+        payload: Uint8Array,
+        options: {
+            showMe?: boolean;
+            onProgress?: (bytesSent: number, totalBytes: number) => void;
+            signal?: AbortSignal;
+            windowSize?: number;
+            ackTimeout?: number;
+        } = {}
+    ): Promise<void> {
+        await this.sendMessage(msgCode, encodeCompressedMessage(payload), options);
     }
 }
@@ -0,0 +1,469 @@
+import { AutoReconnectOptions, FrameBle, FrameBleEvents } from './frame-ble';
+import { FrameEventListener, TypedEventEmitter } from './event-emitter';
+import { eventStream } from './event-stream';
+import { FrameLogger, createConsoleLogger } from './logger';
+import { LuaMinifyOptions } from './lua-minify';
+import { LuaSerializable } from './lua-rpc';
+
+/**
+ * A device registered with a `FrameManager`.
+ */
+export interface ManagedFrame {
+    /** The id the device is registered under, by default its Bluetooth name. */
+    id: string;
+    /** A display name for the device, e.g. a student's name. Defaults to the id. */
+    label: string;
+    /** The connection to the device. */
+    frameBle: FrameBle;
+    /** Whether the device is connected right now. */
+    connected: boolean;
+}
+
+/**
+ * The devices a `FrameManager` operation applies to: a list of device ids, or a filter.
+ * Operations apply to every connected device if no selector is given.
+ */
+export type DeviceSelector = string[] | ((device: ManagedFrame) => boolean);
+
+/**
+ * The outcome of an operation run on several devices.
+ */
+export interface BroadcastResult<T> {
+    /** The value from each device the operation succeeded on, keyed by device id. */
+    results: Map<string, T>;
+    /** The error from each device the operation failed on, keyed by device id. */
+    failures: Map<string, Error>;
+}
+
+type TaggedFrameBleEvents = { [K in keyof FrameBleEvents]: [deviceId: string, ...args: FrameBleEvents[K]] };
+
+/**
+ * The events emitted by `FrameManager`: every `FrameBle` event of a registered device, with the device id
+ * added as the first argument, and changes to the registry.
+ */
+export interface FrameManagerEvents extends TaggedFrameBleEvents {
+    /** A device was registered. */
+    added: [deviceId: string, label: string];
+    /** A device was removed from the registry. */
+    removed: [deviceId: string];
+}
+
+/**
+ * An event of a registered device, as yielded by `FrameManager.events`.
+ */
+export type FrameManagerEvent = {
+    [K in keyof FrameBleEvents]: { deviceId: string; event: K; args: FrameBleEvents[K] };
+}[keyof FrameBleEvents];
+
+// Every FrameBle event, and whether the manager always forwards it; the type makes the compiler flag events missing here.
+// Messages are only forwarded while the manager has `message` listeners, so idle managers add no listener per device.
+const FORWARDED_EVENTS: { [K in keyof FrameBleEvents]: boolean } = {
+    print: true,
+    data: true,
+    message: false,
+    connect: true,
+    stateChange: true,
+    disconnect: true,
+    reconnecting: true,
+    error: true,
+    luaError: true,
+    telemetry: true,
+    batteryLow: true,
+    memoryGrowth: true,
+    tap: true,
+};
+
+/**
+ * A device in the registry of a `FrameManager`.
+ */
+interface RegisteredDevice {
+    label: string;
+    frameBle: FrameBle;
+    /** Stops forwarding the device's events. */
+    detach: () => void;
+    /** Stops forwarding the device's messages, while they are forwarded. */
+    removeMessageListener?: () => void;
+}
+
+/**
+ * Connects, tracks and labels several Frame devices, runs commands on all or some of them at once,
+ * and re-emits the events of every device tagged with its id.
+ *
+ * Operations on several devices run in parallel and never reject because one device fails: they resolve with
+ * each device's result or error (see `BroadcastResult`).
+ */
+export class FrameManager extends TypedEventEmitter<FrameManagerEvents> {
+    private readonly createFrameBle: () => FrameBle;
+    private readonly logger: FrameLogger;
+    private readonly devices = new Map<string, RegisteredDevice>();
+    private addedCount = 0;
+
+    /**
+     * Creates an empty device manager.
+     * @param options Optional configuration for the manager.
+     * @param options.createFrameBle Creates the `FrameBle` for each device `connect` adds, e.g. to pass a transport or
+     * logger. Defaults to a `FrameBle` with the manager's logger.
+     * @param options.logger Where errors that no `error` listener handles are logged. Defaults to a console logger at level 'info'.
+     */
+    constructor(options: { createFrameBle?: () => FrameBle; logger?: FrameLogger } = {}) {
+        super();
+        const { logger = createConsoleLogger() } = options;
+        this.logger = logger;
+        this.createFrameBle = options.createFrameBle ?? (() => new FrameBle({ logger }));
+    }
+
+    /**
+     * Connects to a device and registers it. In a browser, each call prompts the user to pick a device.
+     * @param options Optional configuration for the device and the connection, as for `FrameBle.connect`, plus:
+     * @param options.id The id to register the device under. Defaults to the device name, with a number appended
+     * if another registered device has the same name.
+     * @param options.label The display name of the device. Defaults to the id.
+     * @returns A promise that resolves with the id of the device.
+     * @throws Error if the connection fails (the device isn't registered then) or the id is already in use.
+     */
+    public async connect(
+        options: {
+            id?: string;
+            label?: string;
+            name?: string;
+            namePrefix?: string;
+            numAttempts?: number;
+            retryDelayMs?: number;
+            autoReconnect?: boolean | AutoReconnectOptions;
+        } = {}
+    ): Promise<string> {
+        const { id, label, ...connectOptions } = options;
+        if (id !== undefined) this.checkIdAvailable(id);
+        const frameBle = this.createFrameBle();
+        const deviceName = await frameBle.connect(connectOptions);
+        return this.add(frameBle, { id: id ?? this.uniqueId(deviceName ?? "Frame"), label });
+    }
+
+    /**
+     * Registers a `FrameBle`, connected or not, so the manager tracks it and forwards its events.
+     * @param frameBle The device connection.
+     * @param options Optional configuration for the registration.
+     * @param options.id The id to register the device under. Defaults to "Frame 1", "Frame 2" and so on.
+     * @param options.label The display name of the device. Defaults to the id.
+     * @returns The id of the device.
+     * @throws Error if the id is already in use or the `FrameBle` is already registered.
+     */
+    public add(frameBle: FrameBle, options: { id?: string; label?: string } = {}): string {
+        if ([...this.devices.values()].some(device => device.frameBle === frameBle)) {
+            throw new Error("This FrameBle is already registered.");
+        }
+        const id = options.id ?? this.uniqueId(`Frame ${this.addedCount + 1}`);
+        this.checkIdAvailable(id);
+        const label = options.label ?? id;
+
+        const removers = FrameManager.alwaysForwardedEvents().map(event =>
+            frameBle.on(event, (...args: unknown[]) => this.forward(id, event, args)));
+        const device: RegisteredDevice = {
+            label,
+            frameBle,
+            detach: () => {
+                removers.forEach(remove => remove());
+                device.removeMessageListener?.();
+            },
+        };
+        this.devices.set(id, device);
+        this.updateMessageForwarding();
+        this.addedCount++;
+        this.emit('added', id, label);
+        return id;
+    }
+
+    /**
+     * Removes a device from the registry and stops forwarding its events.
+     * @param id The id of the device.
+     * @param options Optional configuration for the removal.
+     * @param options.disconnect If true, disconnects the device too. Defaults to true.
+     * @returns A promise that resolves once the device is removed (and disconnected); unknown ids are ignored.
+     */
+    public async remove(id: string, options: { disconnect?: boolean } = {}): Promise<void> {
+        const { disconnect = true } = options;
+        const device = this.devices.get(id);
+        if (!device) return;
+        this.devices.delete(id);
+        device.detach();
+        this.emit('removed', id);
+        if (disconnect) await device.frameBle.disconnect();
+    }
+
+    /**
+     * @param id The id of a device.
+     * @returns The device, or undefined if no device is registered under the id.
+     */
+    public get(id: string): ManagedFrame | undefined {
+        const device = this.devices.get(id);
+        return device && { id, label: device.label, frameBle: device.frameBle, connected: device.frameBle.isConnected() };
+    }
+
+    /**
+     * @returns Every registered device, connected or not, in registration order.
+     */
+    public list(): ManagedFrame[] {
+        return [...this.devices.keys()].map(id => this.get(id)!);
+    }
+
+    /**
+     * @returns The registered devices that are connected right now.
+     */
+    public connected(): ManagedFrame[] {
+        return this.list().filter(device => device.connected);
+    }
+
+    /**
+     * Changes the display name of a device.
+     * @param id The id of the device.
+     * @param label The new display name.
+     * @throws Error if no device is registered under the id.
+     */
+    public setLabel(id: string, label: string): void {
+        const device = this.devices.get(id);
+        if (!device) {
+            throw new Error(`Unknown device: ${id}`);
+        }
+        device.label = label;
+    }
+
+    /**
+     * Streams the events of every registered device, tagged with the device id, until the iterator is closed.
+     * @param events The events to stream. Defaults to every `FrameBle` event except `message`.
+     * @returns An async iterable of events, for use with `for await`.
+     */
+    public events(events: (keyof FrameBleEvents)[] = FrameManager.alwaysForwardedEvents()): AsyncIterableIterator<FrameManagerEvent> {
+        return eventStream<FrameManagerEvent>(push => {
+            const removers = events.map(event =>
+                this.on(event, (deviceId: string, ...args: unknown[]) => push({ deviceId, event, args } as FrameManagerEvent)));
+            return () => removers.forEach(remove => remove());
+        });
+    }
+
+    /**
+     * Runs an operation on several devices in parallel.
+     * @param operation Called with each selected device; its result (or error) is collected.
+     * @param to The devices to run on. Defaults to every connected device.
+     * @returns A promise that resolves, once the operation has finished on every device, with the results and failures.
+     * Ids in `to` that aren't registered are reported as failures.
+     */
+    public async broadcast<T>(operation: (frameBle: FrameBle, device: ManagedFrame) => Promise<T>, to?: DeviceSelector): Promise<BroadcastResult<T>> {
+        const result: BroadcastResult<T> = { results: new Map(), failures: new Map() };
+        const ids = Array.isArray(to)
+            ? to
+            : this.list().filter(to ?? (device => device.connected)).map(device => device.id);
+
+        await Promise.all(ids.map(async id => {
+            const device = this.get(id);
+            try {
+                if (!device) {
+                    throw new Error(`Unknown device: ${id}`);
+                }
+                result.results.set(id, await operation(device.frameBle, device));
+            } catch (error) {
+                result.failures.set(id, error instanceof Error ? error : new Error(String(error)));
+            }
+        }));
+        return result;
+    }
+
+    /**
+     * Sends a Lua command to several devices (see `FrameBle.sendLua`).
+     * @param lua The Lua command.
+     * @param options Optional configuration, as for `FrameBle.sendLua`, plus:
+     * @param options.to The devices to send to. Defaults to every connected device.
+     * @returns A promise that resolves with each device's print response (if `awaitPrint` is true) or failure.
+     */
+    public async sendLua(
+        lua: string,
+        options: { awaitPrint?: boolean; timeout?: number; priority?: number; to?: DeviceSelector } = {}
+    ): Promise<BroadcastResult<string | void>> {
+        const { to, ...sendOptions } = options;
+        return this.broadcast(frameBle => frameBle.sendLua(lua, sendOptions), to);
+    }
+
+    /**
+     * Runs a Lua snippet of any length on several devices (see `FrameBle.evalLua`).
+     * @param code The Lua code.
+     * @param options Optional configuration, as for `FrameBle.evalLua`, plus:
+     * @param options.to The devices to run on. Defaults to every connected device.
+     * @returns A promise that resolves with each device's print output or failure.
+     */
+    public async evalLua(code: string, options: { timeout?: number; to?: DeviceSelector } = {}): Promise<BroadcastResult<string>> {
+        const { to, ...evalOptions } = options;
+        return this.broadcast(frameBle => frameBle.evalLua(code, evalOptions), to);
+    }
+
+    /**
+     * Calls a Lua function on several devices (see `FrameBle.call`).
+     * @param functionName The name of the function.
+     * @param args The arguments.
+     * @param options Optional configuration, as for `FrameBle.call`, plus:
+     * @param options.to The devices to call on. Defaults to every connected device.
+     * @returns A promise that resolves with each device's return value or failure.
+     */
+    public async call<T = unknown>(
+        functionName: string,
+        args: LuaSerializable[] = [],
+        options: { timeout?: number; priority?: number; to?: DeviceSelector } = {}
+    ): Promise<BroadcastResult<T>> {
+        const { to, ...callOptions } = options;
+        return this.broadcast(frameBle => frameBle.call<T>(functionName, args, callOptions), to);
+    }
+
+    /**
+     * Uploads a text file to several devices (see `FrameBle.uploadFile`).
+     * @param content The content of the file.
+     * @param frameFilePath The path on the devices. Defaults to "main.lua".
+     * @param options Optional configuration, as for `FrameBle.uploadFile`, plus:
+     * @param options.to The devices to upload to. Defaults to every connected device.
+     * @param options.onProgress Called after each chunk written to any device with the device id, the bytes of the file
+     * written to it so far and the file size.
+     * @returns A promise that resolves with each device's success or failure.
+     */
+    public async uploadFile(
+        content: string,
+        frameFilePath = "main.lua",
+        options: {
+            to?: DeviceSelector;
+            onProgress?: (deviceId: string, bytesSent: number, totalBytes: number) => void;
+            signal?: AbortSignal;
+            minify?: boolean | LuaMinifyOptions;
+        } = {}
+    ): Promise<BroadcastResult<void>> {
+        const { to, onProgress, ...uploadOptions } = options;
+        return this.broadcast((frameBle, device) => frameBle.uploadFile(content, frameFilePath, {
+            ...uploadOptions,
+            onProgress: onProgress && ((bytesSent, totalBytes) => onProgress(device.id, bytesSent, totalBytes)),
+        }), to);
+    }
+
+    /**
+     * Uploads a binary file to several devices, verifying it on each (see `FrameBle.uploadFileFromBytes`).
+     * @param data The bytes of the file.
+     * @param frameFilePath The path on the devices.
+     * @param options Optional configuration, as for `FrameBle.uploadFileFromBytes`, plus:
+     * @param options.to The devices to upload to. Defaults to every connected device.
+     * @returns A promise that resolves with each device's success or failure.
+     */
+    public async uploadFileFromBytes(
+        data: Uint8Array,
+        frameFilePath: string,
+        options: { chunkTimeout?: number; maxRetries?: number; compress?: boolean; to?: DeviceSelector } = {}
+    ): Promise<BroadcastResult<void>> {
+        const { to, ...uploadOptions } = options;
+        return this.broadcast(frameBle => frameBle.uploadFileFromBytes(data, frameFilePath, uploadOptions), to);
+    }
+
+    /**
+     * Sends a message to several devices (see `FrameBle.sendMessage`).
+     * @param msgCode The message code (0-255).
+     * @param payload The message payload.
+     * @param options Optional configuration, as for `FrameBle.sendMessage`, plus:
+     * @param options.to The devices to send to. Defaults to every connected device.
+     * @param options.onProgress Called after each packet acknowledged by any device with the device id, the number of
+     * payload bytes sent to it so far and the payload size.
+     * @returns A promise that resolves with each device's success or failure.
+     */
+    public async sendMessage(
+        msgCode: number,
+        payload: Uint8Array,
+        options: {
+            showMe?: boolean;
+            onProgress?: (deviceId: string, bytesSent: number, totalBytes: number) => void;
+            signal?: AbortSignal;
+            windowSize?: number;
+            ackTimeout?: number;
+            to?: DeviceSelector;
+        } = {}
+    ): Promise<BroadcastResult<void>> {
+        const { to, onProgress, ...sendOptions } = options;
+        return this.broadcast((frameBle, device) => frameBle.sendMessage(msgCode, payload, {
+            ...sendOptions,
+            onProgress: onProgress && ((bytesSent, totalBytes) => onProgress(device.id, bytesSent, totalBytes)),
+        }), to);
+    }
+
+    /**
+     * Disconnects every registered device. The devices stay registered, so they can be listed and reconnected.
+     * @returns A promise that resolves with each device's success or failure.
+     */
+    public async disconnectAll(): Promise<BroadcastResult<void>> {
+        return this.broadcast(frameBle => frameBle.disconnect(), () => true);
+    }
+
+    /**
+     * Logs listener failures, which belong to no device.
+     */
+    protected onListenerError(error: unknown, _event: keyof FrameManagerEvents): void {
+        this.logger.error(error);
+    }
+
+    /**
+     * Adds a listener for an event, as `TypedEventEmitter.on` does.
+     * The first `message` listener starts forwarding the messages of the devices.
+     */
+    public override on<K extends keyof FrameManagerEvents>(event: K, listener: FrameEventListener<FrameManagerEvents[K]>): () => void {
+        const remove = super.on(event, listener);
+        if (event === 'message') this.updateMessageForwarding();
+        return remove;
+    }
+
+    /**
+     * Removes a listener added with `on`. Removing the last `message` listener stops forwarding messages.
+     */
+    public override off<K extends keyof FrameManagerEvents>(event: K, listener: FrameEventListener<FrameManagerEvents[K]>): void {
+        super.off(event, listener);
+        if (event === 'message') this.updateMessageForwarding();
+    }
+
+    /**
+     * Listens to the `message` events of the devices only while the manager has `message` listeners.
+     */
+    private updateMessageForwarding() {
+        const forwarding = this.listenerCount('message') > 0;
+        for (const [id, device] of this.devices) {
+            if (forwarding && !device.removeMessageListener) {
+                device.removeMessageListener = device.frameBle.on('message', (...args) => this.forward(id, 'message', args));
+            } else if (!forwarding && device.removeMessageListener) {
+                device.removeMessageListener();
+                device.removeMessageListener = undefined;
+            }
+        }
+    }
+
+    private static alwaysForwardedEvents(): (keyof FrameBleEvents)[] {
+        return (Object.keys(FORWARDED_EVENTS) as (keyof FrameBleEvents)[]).filter(event => FORWARDED_EVENTS[event]);
+    }
+
+    /**
+     * Re-emits an event of a device. Errors and unsolicited Lua errors nobody listens to are reported
+     * the way `FrameBle` reports them: Lua errors through `error`, and errors through the logger.
+     */
+    private forward(id: string, event: keyof FrameBleEvents, args: unknown[]) {
+        const emit = this.emit.bind(this) as (event: keyof FrameManagerEvents, ...args: unknown[]) => void;
+        if (this.listenerCount(event) > 0) {
+            emit(event, id, ...args);
+        } else if (event === 'error' || event === 'luaError') {
+            if (this.listenerCount('error') > 0) {
+                emit('error', id, ...args);
+            } else {
+                this.logger.error(`${this.devices.get(id)?.label ?? id}:`, args[0]);
+            }
+        }
+    }
+
+    private uniqueId(base: string): string {
+        let id = base;
+        for (let n = 2; this.devices.has(id); n++) {
+            id = `${base} (${n})`;
+        }
+        return id;
+    }
+
+    private checkIdAvailable(id: string) {
+        if (this.devices.has(id)) {
+            throw new Error(`A device is already registered as ${id}.`);
+        }
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * One or more taps on the glasses in quick succession, as reported by `FrameBle.onTap`.
+ */
+export interface TapEvent {
+    /** The number of taps, e.g. 2 for a double tap. */
+    count: number;
+    /** When the burst of taps was reported (milliseconds since the epoch). */
+    time: number;
+}
+
+/**
+ * A three-axis raw sensor value.
+ */
+export interface Vector3 {
+    x: number;
+    y: number;
+    z: number;
+}
+
+/**
+ * A reading of the Frame IMU, as yielded by `FrameBle.streamImu`.
+ */
+export interface ImuReading {
+    /** Head roll in degrees, to a tenth of a degree. */
+    roll: number;
+    /** Head pitch in degrees, to a tenth of a degree. */
+    pitch: number;
+    /** Compass heading in degrees, to a tenth of a degree. */
+    heading: number;
+    /** The raw accelerometer values. */
+    accelerometer: Vector3;
+    /** The raw compass (magnetometer) values. */
+    compass: Vector3;
+    /** When the reading arrived (milliseconds since the epoch). */
+    time: number;
+}
+
+/**
+ * Options for `FrameBle.streamImu`.
+ */
+export interface ImuStreamOptions {
+    /** The time in milliseconds between readings. Defaults to 100ms. */
+    intervalMs?: number;
+}
+
+/** The data packet sent by the device for each tap. */
+export const TAP_EVENT = 0x0A;
+/** First byte of a data packet carrying an IMU reading. */
+export const IMU_EVENT = 0x0B;
+
+/**
+ * Lua installed on the device by `FrameBle.onTap` and `FrameBle.streamImu`, as the global `_evt`.
+ * `_evt.tap` is the tap callback, sending `TAP_EVENT`; `_evt.imu()` sends `IMU_EVENT` followed by
+ * roll, pitch and heading in tenths of a degree and the raw accelerometer and compass values,
+ * each as a 16-bit big-endian signed integer.
+ */
+export const EVENTS_LUA = `_evt={}
+function _evt.tap()
+    pcall(frame.bluetooth.send,string.char(${TAP_EVENT}))
+end
+local function i16(v)
+    return math.max(-32768,math.min(32767,math.floor(v+0.5)))
+end
+function _evt.imu()
+    local d=frame.imu.direction()
+    local r=frame.imu.raw()
+    local a,c=r.accelerometer,r.compass
+    frame.bluetooth.send(string.pack('>Bhhhhhhhhh',${IMU_EVENT},i16(d.roll*10),i16(d.pitch*10),i16(d.heading*10),i16(a.x),i16(a.y),i16(a.z),i16(c.x),i16(c.y),i16(c.z)))
+end
+`;
+
+/**
+ * Decodes an IMU reading sent by `_evt.imu()`.
+ * @param data The packet payload, starting with `IMU_EVENT`.
+ * @returns The reading, timestamped now.
+ */
+export function decodeImuReading(data: Uint8Array): ImuReading {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const value = (index: number) => view.getInt16(1 + index * 2);
+    return {
+        roll: value(0) / 10,
+        pitch: value(1) / 10,
+        heading: value(2) / 10,
+        accelerometer: { x: value(3), y: value(4), z: value(5) },
+        compass: { x: value(6), y: value(7), z: value(8) },
+        time: Date.now(),
+    };
+}
@@ -1 +1,33 @@
 export { FrameBle } from './frame-ble';
+export type { FrameFileEntry, ThroughputResult, AutoReconnectOptions, SetupStep, FrameBleEvents, ConnectionState, DisconnectReason } from './frame-ble';
+export { FrameManager } from './frame-manager';
+export type { ManagedFrame, DeviceSelector, BroadcastResult, FrameManagerEvents, FrameManagerEvent } from './frame-manager';
+export type { FrameEventListener } from './event-emitter';
+export type { DeployResult, DeployFileStatus } from './app-manifest';
+export type { FrameDeviceInfo, FrameTelemetry, TelemetryMonitorOptions } from './telemetry';
+export { createConsoleLogger } from './logger';
+export type { FrameLogger, LogLevel } from './logger';
+export { TraceRecorder } from './trace';
+export type { FrameTrace, TracePacket } from './trace';
+export type { FrameTransport, DeviceSelectionOptions } from './transport';
+export { WebBluetoothTransport } from './web-bluetooth-transport';
+export { SimulatedFrameTransport } from './simulated-frame-transport';
+export type { SimulatedFrameOptions, SimulatedLuaResponder } from './simulated-frame-transport';
+export { ReplayTransport } from './replay-transport';
+export type { ReplayOptions, ReplayMismatch } from './replay-transport';
+export { FrameLuaError, FrameVerificationError, FrameFileError, FrameCaptureError, FrameTimeoutError, FrameConnectionError, FrameCancelledError, FrameServiceNotFoundError, FrameHandshakeError, FrameGattError } from './errors';
+export type { CaptureOptions, CameraQuality } from './camera';
+export { encodeWav } from './audio';
+export type { AudioOptions } from './audio';
+export type { TapEvent, ImuReading, ImuStreamOptions, Vector3 } from './imu';
+export { LuaRepl, localStorageHistory, REPL_HELPER_LUA } from './lua-repl';
+export type { ReplOutput, ReplHistoryStore, ReplSubmitResult, ReplCompletion, LuaReplEvents } from './lua-repl';
+export { FrameDisplay } from './display';
+export { encodeSprite, FRAME_COLOR_NAMES } from './sprite';
+export type { FrameSprite, FrameColorName, RgbColor, RgbaImage } from './sprite';
+export { toLuaLiteral } from './lua-rpc';
+export type { LuaSerializable } from './lua-rpc';
+export { compressLz4Frame, decompressLz4Frame } from './lz4';
+export { minifyLua } from './lua-minify';
+export type { LuaMinifyOptions, MinifiedLua } from './lua-minify';
+export { MESSAGE_RECEIVER_LUA, COMPRESSED_MESSAGE_LUA } from './message-receivers';
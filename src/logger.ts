@@ -0,0 +1,32 @@
+/**
+ * Log levels in increasing order of severity. `silent` disables logging.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Destination for diagnostic messages from `FrameBle` and its transports.
+ * Any object with these methods can be supplied, e.g. to forward messages to an app's own logging.
+ */
+export interface FrameLogger {
+    debug(...args: unknown[]): void;
+    info(...args: unknown[]): void;
+    warn(...args: unknown[]): void;
+    error(...args: unknown[]): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+/**
+ * Creates a logger that writes to the console, dropping messages below the given level.
+ * @param level The lowest level to log. Defaults to 'info'.
+ * @returns A logger writing to `console.debug`, `console.log`, `console.warn` and `console.error`.
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): FrameLogger {
+    const enabled = (messageLevel: LogLevel) => LEVEL_ORDER[messageLevel] >= LEVEL_ORDER[level];
+    return {
+        debug: (...args) => { if (enabled('debug')) console.debug(...args); },
+        info: (...args) => { if (enabled('info')) console.log(...args); },
+        warn: (...args) => { if (enabled('warn')) console.warn(...args); },
+        error: (...args) => { if (enabled('error')) console.error(...args); },
+    };
+}
@@ -0,0 +1,607 @@
+/**
+ * Lua minifier for uploads: removes comments, indentation, blank lines and redundant spaces, and can shorten
+ * the names of local variables. Strings (including long strings) are copied as written, escape sequences included.
+ *
+ * Line breaks between tokens are kept, so each line of the minified code comes from a single line of the source
+ * (or, within a multi-line string, from consecutive lines) and errors raised on the device can be mapped back.
+ */
+
+/**
+ * Options for `minifyLua`.
+ */
+export interface LuaMinifyOptions {
+    /**
+     * If true, local variables, parameters and local functions are given the shortest names that don't clash with
+     * the globals used in the file or with other locals in scope. Defaults to false.
+     */
+    renameLocals?: boolean;
+}
+
+/**
+ * Lua source minified by `minifyLua`.
+ */
+export interface MinifiedLua {
+    /** The minified source. */
+    code: string;
+    /** The line of the source each line of `code` comes from: line n of `code` comes from line `lineMap[n - 1]`. */
+    lineMap: number[];
+}
+
+const KEYWORDS = new Set([
+    "and", "break", "do", "else", "elseif", "end", "false", "for", "function", "goto", "if", "in",
+    "local", "nil", "not", "or", "repeat", "return", "then", "true", "until", "while",
+]);
+const OPERATORS = ["...", "..", "==", "~=", "<=", ">=", "<<", ">>", "//", "::"];
+const SINGLE_CHARACTER_OPERATORS = "+-*/%^#&~|<>=(){}[];:,.";
+// Pairs of characters that lex differently when written together: operators, comments and long brackets
+const JOINING_PAIRS = new Set([...OPERATORS.map(operator => operator.substring(0, 2)), "--", "[[", "[="]);
+const UNARY_OPERATORS = new Set(["not", "-", "#", "~"]);
+const BINARY_OPERATORS = new Set([
+    "+", "-", "*", "/", "//", "%", "^", "..", "==", "~=", "<", "<=", ">", ">=", "and", "or", "&", "|", "~", "<<", ">>",
+]);
+const BLOCK_ENDS = new Set(["end", "else", "elseif", "until"]);
+
+const LONG_BRACKET = /\[(=*)\[/y;
+const NAME = /[A-Za-z_][A-Za-z0-9_]*/y;
+// Like the Lua lexer, numerals take in any letters and dots that follow, and a sign after an exponent mark
+const HEX_NUMERAL = /0[xX](?:[pP][+-]|[0-9A-Za-z_.])*/y;
+const DECIMAL_NUMERAL = /(?:[eE][+-]|[0-9A-Za-z_.])+/y;
+
+type TokenType = 'name' | 'keyword' | 'number' | 'string' | 'operator' | 'eof';
+
+interface Token {
+    type: TokenType;
+    text: string;
+    /** The line of the source where the token starts. */
+    line: number;
+}
+
+/**
+ * Minifies Lua source.
+ * @param source The Lua source.
+ * @param options Optional configuration for the minification.
+ * @param options.renameLocals If true, shortens the names of local variables, parameters and local functions. Defaults to false.
+ * @returns The minified code and the source line of each of its lines.
+ * @throws Error if the source can't be tokenized (e.g. an unfinished string), or can't be parsed when renaming locals.
+ */
+export function minifyLua(source: string, options: LuaMinifyOptions = {}): MinifiedLua {
+    const { renameLocals = false } = options;
+    // A first line starting with # (e.g. #!/usr/bin/lua) is skipped by Lua
+    const tokens = tokenize(source.replace(/\r\n?/g, "\n").replace(/^#[^\n]*/, ""));
+    const names = renameLocals ? shortenLocals(tokens) : undefined;
+
+    const parts: string[] = [];
+    const lineMap: number[] = [];
+    let previous: { token: Token; text: string } | undefined;
+    let lastLine = 0;
+    for (const token of tokens) {
+        if (token.type === 'eof') break;
+        const text = names?.get(token) ?? token.text;
+        if (!previous || token.line > lastLine) {
+            if (previous) parts.push("\n");
+            lineMap.push(token.line);
+        } else if (needsSpace(previous.token, previous.text, text)) {
+            parts.push(" ");
+        }
+        parts.push(text);
+        // a string spanning lines is copied as is
+        const lineBreaks = text.split("\n").length - 1;
+        for (let offset = 1; offset <= lineBreaks; offset++) {
+            lineMap.push(token.line + offset);
+        }
+        lastLine = token.line + lineBreaks;
+        previous = { token, text };
+    }
+    return { code: parts.join(""), lineMap };
+}
+
+/**
+ * Checks whether two tokens written on the same line need a space between them to be read back as the same tokens.
+ */
+function needsSpace(before: Token, beforeText: string, afterText: string): boolean {
+    const last = beforeText[beforeText.length - 1];
+    const first = afterText[0];
+    if (/\w/.test(last) && /\w/.test(first)) return true;
+    if (before.type === 'number' && first === ".") return true;
+    if (last === "." && /\d/.test(first)) return true;
+    return JOINING_PAIRS.has(last + first);
+}
+
+function syntaxError(message: string, line: number): Error {
+    return new Error(`Can't minify Lua: ${message} at line ${line}.`);
+}
+
+/**
+ * Splits Lua source into tokens, dropping whitespace and comments. Line breaks must be normalized to "\n".
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let i = 0;
+
+    const matchAt = (pattern: RegExp) => {
+        pattern.lastIndex = i;
+        return pattern.exec(source);
+    };
+    const skipLongBracket = (level: string) => {
+        const close = `]${level}]`;
+        const end = source.indexOf(close, i + level.length + 2);
+        if (end < 0) throw syntaxError("unfinished long string or comment", line);
+        const text = source.substring(i, end + close.length);
+        line += text.split("\n").length - 1;
+        i = end + close.length;
+        return text;
+    };
+
+    while (i < source.length) {
+        const c = source[i];
+        if (c === "\n") {
+            line++;
+            i++;
+            continue;
+        }
+        if (c === " " || c === "\t" || c === "\v" || c === "\f") {
+            i++;
+            continue;
+        }
+        const start = line;
+
+        if (source.startsWith("--", i)) {
+            i += 2;
+            const bracket = matchAt(LONG_BRACKET);
+            if (bracket) {
+                skipLongBracket(bracket[1]);
+            } else {
+                const end = source.indexOf("\n", i);
+                i = end < 0 ? source.length : end;
+            }
+            continue;
+        }
+
+        const bracket = c === "[" ? matchAt(LONG_BRACKET) : null;
+        if (bracket) {
+            tokens.push({ type: 'string', text: skipLongBracket(bracket[1]), line: start });
+            continue;
+        }
+
+        if (c === '"' || c === "'") {
+            let j = i + 1;
+            while (source[j] !== c) {
+                if (j >= source.length || source[j] === "\n") throw syntaxError("unfinished string", start);
+                if (source[j] !== "\\") {
+                    j++;
+                } else if (source[j + 1] === "z") {
+                    // \z skips the whitespace that follows, line breaks included
+                    j += 2;
+                    while (j < source.length && " \t\n\v\f".includes(source[j])) {
+                        if (source[j] === "\n") line++;
+                        j++;
+                    }
+                } else {
+                    if (source[j + 1] === "\n") line++;
+                    j += 2;
+                }
+            }
+            tokens.push({ type: 'string', text: source.substring(i, j + 1), line: start });
+            i = j + 1;
+            continue;
+        }
+
+        if (/\d/.test(c) || (c === "." && /\d/.test(source[i + 1] ?? ""))) {
+            const numeral = matchAt(/0[xX]/y) ? matchAt(HEX_NUMERAL)! : matchAt(DECIMAL_NUMERAL)!;
+            tokens.push({ type: 'number', text: numeral[0], line: start });
+            i += numeral[0].length;
+            continue;
+        }
+
+        const name = matchAt(NAME);
+        if (name) {
+            tokens.push({ type: KEYWORDS.has(name[0]) ? 'keyword' : 'name', text: name[0], line: start });
+            i += name[0].length;
+            continue;
+        }
+
+        const operator = OPERATORS.find(candidate => source.startsWith(candidate, i))
+            ?? (SINGLE_CHARACTER_OPERATORS.includes(c) ? c : undefined);
+        if (operator === undefined) throw syntaxError(`unexpected character '${c}'`, line);
+        tokens.push({ type: 'operator', text: operator, line: start });
+        i += operator.length;
+    }
+    tokens.push({ type: 'eof', text: "<eof>", line });
+    return tokens;
+}
+
+/**
+ * Picks short names for the local variables in the tokens.
+ * @returns The new name of each token that names a local variable.
+ */
+function shortenLocals(tokens: Token[]): Map<Token, string> {
+    const resolver = new LocalResolver(tokens);
+    resolver.run();
+    const names = new Map<Token, string>();
+    // Bindings are in the order they come into scope, so the names of the bindings visible to each are already picked
+    for (const binding of resolver.bindings) {
+        if (binding.fixed) {
+            binding.shortName = binding.name;
+            continue;
+        }
+        const taken = new Set(binding.visible.map(visible => visible.shortName));
+        let index = 0;
+        let name: string;
+        do {
+            name = shortName(index++);
+        } while (taken.has(name) || resolver.globals.has(name) || KEYWORDS.has(name));
+        binding.shortName = name;
+        for (const token of binding.tokens) names.set(token, name);
+    }
+    return names;
+}
+
+/**
+ * @returns The index-th name of the sequence a, b, ..., Z, aa, ba, ...
+ */
+function shortName(index: number): string {
+    const first = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+    const rest = first + "0123456789_";
+    let name = first[index % first.length];
+    for (let remaining = Math.floor(index / first.length); remaining > 0; remaining = Math.floor(remaining / rest.length)) {
+        remaining--;
+        name += rest[remaining % rest.length];
+    }
+    return name;
+}
+
+/**
+ * A local variable, parameter or local function.
+ */
+interface Binding {
+    name: string;
+    /** Whether the binding keeps its name: the implicit `self` of methods, and `_ENV`, which changes how globals resolve. */
+    fixed: boolean;
+    /** The declaration and the references. */
+    tokens: Token[];
+    /** The bindings in scope where this one comes into scope. */
+    visible: Binding[];
+    shortName?: string;
+}
+
+/**
+ * Parses a Lua chunk just far enough to tell which names refer to which local variables, following the
+ * Lua 5.4 grammar (which Lua 5.3 code also follows).
+ */
+class LocalResolver {
+    /** Every binding, in the order they come into scope. */
+    public readonly bindings: Binding[] = [];
+    /** The names used as globals. */
+    public readonly globals = new Set<string>();
+    private readonly scopes: Binding[][] = [];
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    public run(): void {
+        this.scopes.push([]);
+        this.block();
+        if (this.peek().type !== 'eof') this.fail(`unexpected '${this.peek().text}'`);
+        this.scopes.pop();
+    }
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        if (token.type !== 'eof') this.index++;
+        return token;
+    }
+
+    /** Checks whether the next token is the given keyword or operator. */
+    private check(text: string): boolean {
+        const token = this.peek();
+        return (token.type === 'keyword' || token.type === 'operator') && token.text === text;
+    }
+
+    private accept(text: string): boolean {
+        if (!this.check(text)) return false;
+        this.next();
+        return true;
+    }
+
+    private expect(text: string): void {
+        if (!this.accept(text)) this.fail(`'${text}' expected near '${this.peek().text}'`);
+    }
+
+    private name(): Token {
+        const token = this.next();
+        if (token.type !== 'name') this.fail(`name expected near '${token.text}'`);
+        return token;
+    }
+
+    private fail(message: string): never {
+        throw syntaxError(message, this.peek().line);
+    }
+
+    private isOperator(operators: Set<string>): boolean {
+        const token = this.peek();
+        return (token.type === 'keyword' || token.type === 'operator') && operators.has(token.text);
+    }
+
+    private binding(token: Token): Binding;
+    private binding(token: undefined, name: string): Binding;
+    private binding(token: Token | undefined, name = token!.text): Binding {
+        return { name, fixed: token === undefined || name === "_ENV", tokens: token ? [token] : [], visible: [] };
+    }
+
+    /** Brings bindings into scope, e.g. the names of a `local` statement once its values are evaluated. */
+    private activate(bindings: Binding[]) {
+        const scope = this.scopes[this.scopes.length - 1];
+        for (const binding of bindings) {
+            binding.visible = this.scopes.flat();
+            scope.push(binding);
+            this.bindings.push(binding);
+        }
+    }
+
+    private resolve(token: Token) {
+        for (let depth = this.scopes.length - 1; depth >= 0; depth--) {
+            const scope = this.scopes[depth];
+            for (let i = scope.length - 1; i >= 0; i--) {
+                if (scope[i].name === token.text) {
+                    scope[i].tokens.push(token);
+                    return;
+                }
+            }
+        }
+        this.globals.add(token.text);
+    }
+
+    private scopedBlock() {
+        this.scopes.push([]);
+        this.block();
+        this.scopes.pop();
+    }
+
+    private block() {
+        while (!this.blockEnds()) {
+            if (this.accept("return")) {
+                if (!this.blockEnds() && !this.check(";")) this.expressionList();
+                this.accept(";");
+                return;
+            }
+            this.statement();
+        }
+    }
+
+    private blockEnds(): boolean {
+        const token = this.peek();
+        return token.type === 'eof' || (token.type === 'keyword' && BLOCK_ENDS.has(token.text));
+    }
+
+    private statement() {
+        const token = this.peek();
+        if (token.type === 'keyword' || token.type === 'operator') {
+            switch (token.text) {
+                case ";":
+                case "break":
+                    this.next();
+                    return;
+                case "::":
+                    this.next();
+                    this.name();
+                    this.expect("::");
+                    return;
+                case "goto":
+                    this.next();
+                    this.name();
+                    return;
+                case "do":
+                    this.next();
+                    this.scopedBlock();
+                    this.expect("end");
+                    return;
+                case "while":
+                    this.next();
+                    this.expression();
+                    this.expect("do");
+                    this.scopedBlock();
+                    this.expect("end");
+                    return;
+                case "repeat":
+                    // the condition can see the locals of the loop body
+                    this.next();
+                    this.scopes.push([]);
+                    this.block();
+                    this.expect("until");
+                    this.expression();
+                    this.scopes.pop();
+                    return;
+                case "if":
+                    this.next();
+                    this.expression();
+                    this.expect("then");
+                    this.scopedBlock();
+                    while (this.accept("elseif")) {
+                        this.expression();
+                        this.expect("then");
+                        this.scopedBlock();
+                    }
+                    if (this.accept("else")) this.scopedBlock();
+                    this.expect("end");
+                    return;
+                case "for":
+                    this.next();
+                    this.forStatement();
+                    return;
+                case "function":
+                    this.next();
+                    this.functionStatement();
+                    return;
+                case "local":
+                    this.next();
+                    this.localStatement();
+                    return;
+            }
+        }
+
+        // an assignment or a function call
+        this.suffixedExpression();
+        if (this.check("=") || this.check(",")) {
+            while (this.accept(",")) this.suffixedExpression();
+            this.expect("=");
+            this.expressionList();
+        }
+    }
+
+    private forStatement() {
+        const names = [this.name()];
+        while (this.accept(",")) names.push(this.name());
+        // the loop's expressions are evaluated outside the scope of its variables
+        if (names.length === 1 && this.accept("=")) {
+            this.expression();
+            this.expect(",");
+            this.expression();
+            if (this.accept(",")) this.expression();
+        } else {
+            this.expect("in");
+            this.expressionList();
+        }
+        this.expect("do");
+        this.scopes.push([]);
+        this.activate(names.map(name => this.binding(name)));
+        this.block();
+        this.scopes.pop();
+        this.expect("end");
+    }
+
+    private functionStatement() {
+        this.resolve(this.name());
+        while (this.accept(".")) this.name();
+        const method = this.accept(":");
+        if (method) this.name();
+        this.functionBody(method);
+    }
+
+    private localStatement() {
+        if (this.accept("function")) {
+            // the function can call itself
+            this.activate([this.binding(this.name())]);
+            this.functionBody(false);
+            return;
+        }
+        const names: Token[] = [];
+        do {
+            names.push(this.name());
+            if (this.accept("<")) {
+                this.name();
+                this.expect(">");
+            }
+        } while (this.accept(","));
+        // the values are evaluated before the names come into scope, e.g. in `local x = x`
+        if (this.accept("=")) this.expressionList();
+        this.activate(names.map(name => this.binding(name)));
+    }
+
+    private functionBody(method: boolean) {
+        this.scopes.push([]);
+        const parameters = method ? [this.binding(undefined, "self")] : [];
+        this.expect("(");
+        if (!this.check(")")) {
+            do {
+                if (this.accept("...")) break;
+                parameters.push(this.binding(this.name()));
+            } while (this.accept(","));
+        }
+        this.expect(")");
+        this.activate(parameters);
+        this.block();
+        this.expect("end");
+        this.scopes.pop();
+    }
+
+    private expressionList() {
+        do {
+            this.expression();
+        } while (this.accept(","));
+    }
+
+    private expression() {
+        for (;;) {
+            while (this.isOperator(UNARY_OPERATORS)) this.next();
+            this.simpleExpression();
+            if (!this.isOperator(BINARY_OPERATORS)) return;
+            this.next();
+        }
+    }
+
+    private simpleExpression() {
+        const token = this.peek();
+        if (token.type === 'number' || token.type === 'string'
+            || this.check("nil") || this.check("true") || this.check("false") || this.check("...")) {
+            this.next();
+        } else if (this.check("{")) {
+            this.table();
+        } else if (this.accept("function")) {
+            this.functionBody(false);
+        } else {
+            this.suffixedExpression();
+        }
+    }
+
+    private suffixedExpression() {
+        if (this.accept("(")) {
+            this.expression();
+            this.expect(")");
+        } else {
+            this.resolve(this.name());
+        }
+        for (;;) {
+            if (this.accept(".")) {
+                this.name();
+            } else if (this.accept("[")) {
+                this.expression();
+                this.expect("]");
+            } else if (this.accept(":")) {
+                this.name();
+                this.callArguments();
+            } else if (this.check("(") || this.check("{") || this.peek().type === 'string') {
+                this.callArguments();
+            } else {
+                return;
+            }
+        }
+    }
+
+    private callArguments() {
+        if (this.peek().type === 'string') {
+            this.next();
+        } else if (this.check("{")) {
+            this.table();
+        } else {
+            this.expect("(");
+            if (!this.check(")")) this.expressionList();
+            this.expect(")");
+        }
+    }
+
+    private table() {
+        this.expect("{");
+        while (!this.check("}")) {
+            if (this.accept("[")) {
+                this.expression();
+                this.expect("]");
+                this.expect("=");
+                this.expression();
+            } else if (this.peek().type === 'name' && this.peek(1).type === 'operator' && this.peek(1).text === "=") {
+                // a field name, not a variable
+                this.next();
+                this.next();
+                this.expression();
+            } else {
+                this.expression();
+            }
+            if (!this.accept(",") && !this.accept(";")) break;
+        }
+        this.expect("}");
+    }
+}
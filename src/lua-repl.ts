@@ -0,0 +1,469 @@
+import type { FrameBle } from './frame-ble';
+import { FrameLuaError } from './errors';
+import { TypedEventEmitter } from './event-emitter';
+import { eventStream } from './event-stream';
+import { toLuaLiteral } from './lua-rpc';
+
+/**
+ * A line of REPL output, as emitted by `LuaRepl` through its `output` event.
+ */
+export interface ReplOutput {
+    /** `input` for submitted lines, `print` for device prints (including values of expressions), `error` for Lua errors. */
+    kind: 'input' | 'print' | 'error';
+    text: string;
+    /** When the line was submitted or received (milliseconds since the epoch). */
+    time: number;
+}
+
+/**
+ * Where `LuaRepl` keeps its command history between sessions.
+ */
+export interface ReplHistoryStore {
+    /** @returns The saved entries, oldest first. */
+    load(): string[];
+    /** @param entries The entries to save, oldest first. */
+    save(entries: string[]): void;
+}
+
+/**
+ * The outcome of `LuaRepl.submit`: the chunk ran, raised an error, or needs more lines.
+ */
+export type ReplSubmitResult = 'ok' | 'error' | 'incomplete';
+
+/**
+ * Completions for the name before the cursor, as returned by `LuaRepl.complete`.
+ */
+export interface ReplCompletion {
+    /** The index in the input where the completed name starts, i.e. the text from here on is replaced by a candidate. */
+    from: number;
+    /** The matching names, sorted. */
+    candidates: string[];
+}
+
+/**
+ * The events emitted by `LuaRepl`, mapped to the arguments their listeners receive.
+ */
+export interface LuaReplEvents {
+    /** A submitted line, a print from the device or a Lua error. */
+    output: [output: ReplOutput];
+    /** `close()` was called. */
+    close: [];
+}
+
+/**
+ * Creates a history store backed by the browser's `localStorage`.
+ * @param key The storage key. Defaults to "frame-ble-repl-history".
+ * @returns The store; it keeps nothing if `localStorage` isn't available.
+ */
+export function localStorageHistory(key = "frame-ble-repl-history"): ReplHistoryStore {
+    const storage = typeof localStorage === "undefined" ? undefined : localStorage;
+    return {
+        load: () => {
+            try {
+                const entries = JSON.parse(storage?.getItem(key) ?? "[]");
+                return Array.isArray(entries) ? entries.filter(entry => typeof entry === "string") : [];
+            } catch {
+                return [];
+            }
+        },
+        save: (entries) => storage?.setItem(key, JSON.stringify(entries)),
+    };
+}
+
+/** First byte of the data packet that reports the outcome of a chunk run by `REPL_HELPER_LUA`. */
+const REPL_RESULT = 0x0C;
+
+/**
+ * Lua installed on the device by `LuaRepl`, as the global `_repl`.
+ * `_repl.run(src)` runs a chunk (or, without `src`, the pieces collected by `_repl.add`), printing the values it returns
+ * if it is an expression, then sends `REPL_RESULT` followed by `+` on success, `?` if the chunk is incomplete, or `-` and
+ * the error message. `_repl.names(path)` returns the string keys of the table at a dotted path, e.g. "frame.display".
+ */
+export const REPL_HELPER_LUA = `_repl={b={}}
+local function send(s)
+    s=string.sub(string.char(${REPL_RESULT})..s,1,frame.bluetooth.max_length())
+    while not pcall(frame.bluetooth.send,s) do frame.sleep(0.005) end
+end
+function _repl.add(s)
+    _repl.b[#_repl.b+1]=s
+end
+function _repl.run(src)
+    if src==nil then src=table.concat(_repl.b) end
+    _repl.b={}
+    local f,e=load('return '..src,'=stdin')
+    if not f then f,e=load(src,'=stdin') end
+    if not f then
+        send(string.sub(e,-5)=='<eof>' and '?' or '-'..e)
+        return
+    end
+    local r=table.pack(pcall(f))
+    if not r[1] then
+        send('-'..tostring(r[2]))
+        return
+    end
+    if r.n>1 then print(table.unpack(r,2,r.n)) end
+    send('+')
+end
+function _repl.names(path)
+    local t=_G
+    for k in string.gmatch(path,'[^.]+') do
+        if type(t)~='table' then return {} end
+        t=t[k]
+    end
+    local n={}
+    if type(t)=='table' then
+        for k in pairs(t) do
+            if type(k)=='string' then n[#n+1]=k end
+        end
+    end
+    return n
+end
+`;
+
+/**
+ * An interactive Lua console for a connected Frame, without any UI: feed it lines with `submit()`,
+ * show what it emits through `output`, and use `complete()` and the history methods for editing.
+ *
+ * Lines are collected until they form a complete chunk, as in the standard Lua REPL, and expressions print
+ * their values. Chunks too long for one packet are transferred in pieces first. Every print from the device
+ * is emitted with a timestamp, including prints from apps running in the background.
+ * The first chunk installs a small helper on the device.
+ */
+export class LuaRepl extends TypedEventEmitter<LuaReplEvents> {
+    private readonly buffer: string[] = [];
+    private readonly history: string[];
+    private historyIndex: number;
+    private readonly historyStore?: ReplHistoryStore;
+    private readonly historySize: number;
+    private readonly namesCache = new Map<string, string[]>();
+    private busy = false;
+    private internalCommands = 0; // the replies to commands sent by the REPL itself are printed, but aren't output
+    private running?: { interrupt: () => void };
+    private readonly detach: () => void;
+
+    /**
+     * Creates a REPL for a device. It listens to the device's prints and Lua errors until `close()` is called.
+     * @param frameBle The connected `FrameBle` to run chunks on.
+     * @param options Optional configuration for the REPL.
+     * @param options.historyStore Where the command history is loaded from and saved to, e.g. `localStorageHistory()`.
+     * Defaults to keeping the history in memory only.
+     * @param options.historySize The number of history entries kept. Defaults to 500.
+     */
+    constructor(
+        private readonly frameBle: FrameBle,
+        options: { historyStore?: ReplHistoryStore; historySize?: number } = {}
+    ) {
+        super();
+        const { historyStore, historySize = 500 } = options;
+        this.historyStore = historyStore;
+        this.historySize = historySize;
+        this.history = (historyStore?.load() ?? []).slice(-historySize);
+        this.historyIndex = this.history.length;
+
+        const removers = [
+            frameBle.on('print', text => {
+                if (this.internalCommands === 0) this.emitOutput('print', text);
+            }),
+            frameBle.on('luaError', error => this.emitOutput('error', error.luaMessage)),
+            frameBle.on('disconnect', () => this.namesCache.clear()),
+        ];
+        this.detach = () => removers.forEach(remove => remove());
+    }
+
+    /**
+     * @returns The prompt to show before the next line: "> ", or ">> " while a chunk is incomplete.
+     */
+    public prompt(): string {
+        return this.buffer.length > 0 ? ">> " : "> ";
+    }
+
+    /**
+     * Submits a line of input. Once the lines submitted so far form a complete chunk, it is run on the device and
+     * added to the history. Errors are emitted as `error` output rather than thrown.
+     * @param line The line, or several lines pasted at once.
+     * @returns A promise that resolves once the chunk has run, or once the device has found it incomplete.
+     * @throws Error if the previous chunk is still running, or if the device disconnects or the chunk can't be sent.
+     */
+    public async submit(line: string): Promise<ReplSubmitResult> {
+        this.checkIdle();
+        this.emitOutput('input', line);
+        this.buffer.push(line);
+        const chunk = this.buffer.join("\n");
+        if (chunk.trim() === "") {
+            this.buffer.length = 0;
+            return 'ok';
+        }
+
+        const reply = await this.execute(chunk).catch(error => {
+            this.buffer.length = 0;
+            throw error;
+        });
+        if (reply === "?") return 'incomplete';
+        this.buffer.length = 0;
+        this.addHistory(chunk);
+        if (reply.startsWith("-")) {
+            this.emitOutput('error', reply.substring(1));
+            return 'error';
+        }
+        return 'ok';
+    }
+
+    /**
+     * Runs a chunk on the device without touching the input buffer or the history.
+     * Its prints, and the values of an expression, are emitted as output.
+     * @param chunk The Lua code.
+     * @returns A promise that resolves once the chunk has run.
+     * @throws FrameLuaError if the chunk is incomplete or raises an error.
+     * @throws Error if a chunk is already running, or if the device disconnects or the chunk can't be sent.
+     */
+    public async run(chunk: string): Promise<void> {
+        this.checkIdle();
+        const reply = await this.execute(chunk);
+        if (reply === "?") {
+            throw new FrameLuaError("incomplete chunk", chunk);
+        }
+        if (reply.startsWith("-")) {
+            const location = reply.match(/^-stdin:(\d+): /);
+            throw new FrameLuaError(reply.substring(1), chunk, location ? parseInt(location[1]) : undefined);
+        }
+    }
+
+    /**
+     * Discards the lines of an incomplete chunk.
+     */
+    public cancelInput(): void {
+        this.buffer.length = 0;
+    }
+
+    /**
+     * Interrupts the running chunk with a break signal. If the device doesn't report the chunk as ended within
+     * a second, it is given up on, so new chunks can be submitted.
+     */
+    public async interrupt(): Promise<void> {
+        const running = this.running;
+        await this.frameBle.sendBreakSignal();
+        if (!running) return;
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        if (this.running === running) running.interrupt();
+    }
+
+    /**
+     * Completes the name before the end of the input, looking up the globals (or the fields of the table
+     * named before the last dot, e.g. `frame.display`) on the device. Lookups are cached until the next chunk runs.
+     * @param input The text before the cursor.
+     * @returns A promise that resolves with the matching names and where they go in the input.
+     */
+    public async complete(input: string): Promise<ReplCompletion> {
+        const match = input.match(/((?:[A-Za-z_]\w*\.)*)([A-Za-z_]\w*)?$/)!;
+        const path = match[1].replace(/\.$/, "");
+        const partial = match[2] ?? "";
+        const from = input.length - partial.length;
+        const before = input.substring(0, match.index);
+        // Nothing to complete after a number, a single dot or colon (but not the `..` operator), or in a string
+        if ((path === "" && partial === "") || /\w$|(^|[^.])[.:]$/.test(before) || LuaRepl.inString(before)) {
+            return { from, candidates: [] };
+        }
+        const names = await this.names(path);
+        return { from, candidates: names.filter(name => name.startsWith(partial)).sort() };
+    }
+
+    /**
+     * @returns The history entries, oldest first.
+     */
+    public getHistory(): string[] {
+        return [...this.history];
+    }
+
+    /**
+     * Steps back through the history, e.g. on the up arrow key.
+     * @returns The previous entry, or the oldest one if there is none before it (undefined if the history is empty).
+     */
+    public previousHistory(): string | undefined {
+        if (this.historyIndex > 0) this.historyIndex--;
+        return this.history[this.historyIndex];
+    }
+
+    /**
+     * Steps forward through the history, e.g. on the down arrow key.
+     * @returns The next entry, or undefined past the newest one (where the input should be empty again).
+     */
+    public nextHistory(): string | undefined {
+        if (this.historyIndex < this.history.length) this.historyIndex++;
+        return this.history[this.historyIndex];
+    }
+
+    /**
+     * Removes every history entry, including the saved ones.
+     */
+    public clearHistory(): void {
+        this.history.length = 0;
+        this.historyIndex = 0;
+        this.historyStore?.save([]);
+    }
+
+    /**
+     * Streams the REPL output until `close()` is called.
+     * @returns An async iterable of output lines, for use with `for await`.
+     */
+    public output(): AsyncIterableIterator<ReplOutput> {
+        return eventStream<ReplOutput>((push, end) => {
+            const removeOutput = this.on('output', push);
+            const removeClose = this.on('close', end);
+            return () => { removeOutput(); removeClose(); };
+        });
+    }
+
+    /**
+     * Stops listening to the device and ends the output streams. A running chunk keeps running on the device.
+     */
+    public close(): void {
+        this.detach();
+        this.emit('close');
+    }
+
+    /**
+     * Runs a chunk with the helper, installing it first if needed.
+     * @returns The outcome reported by the helper: "+", "?" or "-" followed by the error.
+     */
+    private async execute(chunk: string): Promise<string> {
+        this.busy = true;
+        try {
+            return await this.executeWithHelper(chunk);
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    private async executeWithHelper(chunk: string): Promise<string> {
+        this.namesCache.clear();
+        const command = `if _repl then _repl.run(${toLuaLiteral(chunk)}) else frame.bluetooth.send(string.char(${REPL_RESULT},33)) end`;
+        if (new TextEncoder().encode(command).byteLength <= this.frameBle.getMaxPayload(true)) {
+            const reply = await this.sendAndWait(command);
+            if (reply !== "!") return reply;
+            await this.installHelper();
+            return this.sendAndWait(command);
+        }
+
+        // The chunk doesn't fit in one packet, so it is sent in pieces
+        const pieceLength = Math.max(16, Math.floor((this.frameBle.getMaxPayload(true) - 64) / 2));
+        const characters = Array.from(chunk);
+        const pieces: string[] = [];
+        for (let i = 0; i < characters.length; i += pieceLength) {
+            pieces.push(characters.slice(i, i + pieceLength).join(""));
+        }
+        await this.internal(async () => {
+            await this.withHelper(() => this.frameBle.call('_repl.add', [pieces[0]]));
+            for (const piece of pieces.slice(1)) {
+                await this.frameBle.call('_repl.add', [piece]);
+            }
+        });
+        return this.sendAndWait("_repl.run()");
+    }
+
+    /**
+     * Sends a command that makes the helper report an outcome, and waits for the report.
+     */
+    private sendAndWait(command: string): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const finish = () => {
+                removeData();
+                removeDisconnect();
+                this.running = undefined;
+            };
+            const removeData = this.frameBle.on('data', data => {
+                if (data[0] !== REPL_RESULT) return;
+                finish();
+                resolve(new TextDecoder().decode(data.subarray(1)));
+            });
+            const removeDisconnect = this.frameBle.on('disconnect', () => {
+                finish();
+                reject(new Error("Device disconnected while the chunk was running."));
+            });
+            this.running = {
+                interrupt: () => {
+                    finish();
+                    resolve("-interrupted");
+                },
+            };
+            this.frameBle.sendLua(command).catch(error => {
+                finish();
+                reject(error);
+            });
+        });
+    }
+
+    private checkIdle() {
+        if (this.busy) {
+            throw new Error("The previous chunk is still running; wait for it or call interrupt().");
+        }
+    }
+
+    private async installHelper() {
+        await this.internal(() => this.frameBle.evalLua(REPL_HELPER_LUA));
+    }
+
+    /**
+     * Runs commands of the REPL's own, leaving their replies out of the output.
+     */
+    private async internal<T>(action: () => Promise<T>): Promise<T> {
+        this.internalCommands++;
+        try {
+            return await action();
+        } finally {
+            this.internalCommands--;
+        }
+    }
+
+    /**
+     * Calls a helper function, installing the helper and calling again if the call fails with a Lua error.
+     */
+    private async withHelper<T>(action: () => Promise<T>): Promise<T> {
+        try {
+            return await action();
+        } catch (error) {
+            if (!(error instanceof FrameLuaError)) throw error;
+            await this.installHelper();
+            return action();
+        }
+    }
+
+    private async names(path: string): Promise<string[]> {
+        let names = this.namesCache.get(path);
+        if (!names) {
+            const result = await this.internal(() => this.withHelper(() => this.frameBle.call<unknown>('_repl.names', [path])));
+            names = Array.isArray(result) ? result.filter((name): name is string => typeof name === "string") : [];
+            this.namesCache.set(path, names);
+        }
+        return names;
+    }
+
+    private addHistory(chunk: string) {
+        if (this.history[this.history.length - 1] !== chunk) {
+            this.history.push(chunk);
+            if (this.history.length > this.historySize) this.history.shift();
+            this.historyStore?.save(this.history);
+        }
+        this.historyIndex = this.history.length;
+    }
+
+    private emitOutput(kind: ReplOutput['kind'], text: string) {
+        this.emit('output', { kind, text, time: Date.now() });
+    }
+
+    /**
+     * Checks whether the end of a line of Lua is inside a short string, so nothing is completed there.
+     */
+    private static inString(text: string): boolean {
+        let quote: string | undefined;
+        for (let i = 0; i < text.length; i++) {
+            const c = text[i];
+            if (quote) {
+                if (c === "\\") i++;
+                else if (c === quote) quote = undefined;
+            } else if (c === '"' || c === "'") {
+                quote = c;
+            }
+        }
+        return quote !== undefined;
+    }
+}
@@ -0,0 +1,221 @@
+/**
+ * A JavaScript value that `toLuaLiteral` can write as a Lua literal: `null` and `undefined` become `nil`,
+ * arrays become sequences and plain objects become tables with string keys.
+ */
+export type LuaSerializable =
+    | number
+    | string
+    | boolean
+    | null
+    | undefined
+    | LuaSerializable[]
+    | { [key: string]: LuaSerializable };
+
+/**
+ * Writes a JavaScript value as a Lua literal that can be embedded in a Lua command.
+ *
+ * Strings are written as double-quoted literals of their UTF-8 bytes, with everything but printable
+ * ASCII written as a decimal escape, so quotes, newlines and non-ASCII text survive the trip.
+ * @param value The value to write.
+ * @returns The Lua literal.
+ * @throws Error if the value (or anything it contains) is not a finite number, string, boolean, null, undefined,
+ * array or plain object, or if it contains itself.
+ */
+export function toLuaLiteral(value: LuaSerializable): string {
+    return writeLuaLiteral(value, new Set());
+}
+
+function writeLuaLiteral(value: LuaSerializable, ancestors: Set<object>): string {
+    if (value === null || value === undefined) return "nil";
+    switch (typeof value) {
+        case 'boolean':
+            return String(value);
+        case 'number':
+            if (!Number.isFinite(value)) {
+                throw new Error(`Cannot write ${value} as a Lua number`);
+            }
+            return Object.is(value, -0) ? "0" : String(value);
+        case 'string':
+            return luaStringLiteral(value);
+        case 'object': {
+            const prototype = Object.getPrototypeOf(value);
+            if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+                throw new Error(`Cannot write a ${prototype?.constructor?.name ?? "object"} as a Lua table`);
+            }
+            if (ancestors.has(value)) {
+                throw new Error("Cannot write a value that contains itself as a Lua table");
+            }
+            ancestors.add(value);
+            const fields = Array.isArray(value)
+                ? value.map(item => writeLuaLiteral(item, ancestors))
+                : Object.entries(value)
+                    .filter(([, item]) => item !== undefined)
+                    .map(([key, item]) => `[${luaStringLiteral(key)}]=${writeLuaLiteral(item, ancestors)}`);
+            ancestors.delete(value);
+            return `{${fields.join(",")}}`;
+        }
+    }
+    throw new Error(`Cannot write a ${typeof value} as a Lua value`);
+}
+
+function luaStringLiteral(str: string): string {
+    let literal = '"';
+    for (const byte of new TextEncoder().encode(str)) {
+        if (byte >= 0x20 && byte < 0x7F && byte !== 0x22 && byte !== 0x5C) {
+            literal += String.fromCharCode(byte);
+        } else {
+            // three digits, so a following digit can't be read as part of the escape
+            literal += "\\" + String(byte).padStart(3, "0");
+        }
+    }
+    return literal + '"';
+}
+
+/**
+ * Reads the comma-separated Lua literals written by `toLuaLiteral` (e.g. the arguments of a call) back into JavaScript values.
+ * Tables with only positional fields become arrays, other tables become objects; `nil` becomes null.
+ * @param text The literals, separated by commas.
+ * @returns The values.
+ * @throws Error if the text is not made of literals in the form `toLuaLiteral` writes.
+ */
+export function parseLuaLiterals(text: string): unknown[] {
+    let pos = 0;
+    const fail = (): never => {
+        throw new Error(`Unexpected Lua literal at offset ${pos}: ${text.substring(pos, pos + 20)}`);
+    };
+
+    const parseValue = (): unknown => {
+        const keyword = text.substring(pos).match(/^(nil|true|false)\b/);
+        if (keyword) {
+            pos += keyword[0].length;
+            return keyword[0] === "nil" ? null : keyword[0] === "true";
+        }
+        const number = text.substring(pos).match(/^-?\d+(\.\d+)?(e[+-]?\d+)?/i);
+        if (number) {
+            pos += number[0].length;
+            return parseFloat(number[0]);
+        }
+        if (text[pos] === '"') return parseString();
+        if (text[pos] === '{') return parseTable();
+        return fail();
+    };
+
+    const parseString = (): string => {
+        const bytes: number[] = [];
+        pos++;
+        while (pos < text.length && text[pos] !== '"') {
+            if (text[pos] === "\\") {
+                const escape = text.substring(pos + 1).match(/^\d{1,3}/);
+                if (!escape) fail();
+                bytes.push(parseInt(escape![0]));
+                pos += 1 + escape![0].length;
+            } else {
+                bytes.push(text.charCodeAt(pos));
+                pos++;
+            }
+        }
+        if (text[pos] !== '"') fail();
+        pos++;
+        return new TextDecoder().decode(new Uint8Array(bytes));
+    };
+
+    const parseTable = (): unknown => {
+        const items: unknown[] = [];
+        const fields: Record<string, unknown> = {};
+        let keyed = false;
+        pos++;
+        while (text[pos] !== '}') {
+            if (text[pos] === '[') {
+                pos++;
+                const key = parseValue();
+                if (text.substring(pos, pos + 2) !== "]=") fail();
+                pos += 2;
+                fields[String(key)] = parseValue();
+                keyed = true;
+            } else {
+                items.push(parseValue());
+            }
+            if (text[pos] === ',') pos++;
+            else if (text[pos] !== '}') fail();
+        }
+        pos++;
+        if (!keyed) return items;
+        items.forEach((item, i) => fields[i + 1] = item);
+        return fields;
+    };
+
+    const values: unknown[] = [];
+    if (text.trim() === "") return values;
+    while (pos < text.length) {
+        values.push(parseValue());
+        if (pos === text.length) break;
+        if (text[pos] !== ',') fail();
+        pos++;
+    }
+    return values;
+}
+
+/**
+ * Lua installed on the device by `FrameBle.call`, as the global `_rpc`.
+ *
+ * `_rpc.call(id, n, f, ...)` calls `f` in protected mode and encodes the outcome as "+" followed by a JSON array
+ * of the return values, or "-" followed by the error message. Non-ASCII text in return values is written as `\u`
+ * escapes. The reply is kept under `id` and returned as "~q:" (the tag of internal replies), its length in bytes, ":"
+ * and its first part; `_rpc.part(id, i, n)` returns the tag and up to `n` bytes from `i`, ending on a UTF-8
+ * character boundary, dropping the reply once it has all been returned.
+ */
+export const RPC_HELPER_LUA = `_rpc={r={}}
+local function enc(v)
+    local t=type(v)
+    if t=='nil' then return 'null' end
+    if t=='boolean' then return tostring(v) end
+    if t=='number' then
+        if v~=v or v==math.huge or v==-math.huge then return 'null' end
+        if math.type(v)=='integer' then return string.format('%d',v) end
+        return string.format('%.17g',v)
+    end
+    if t=='string' then
+        local s=v:gsub('[%c"\\\\]',function(c) return string.format('\\\\u%04x',c:byte()) end)
+        if s:find('[\\128-\\255]') and utf8.len(s) then
+            local o={}
+            for _,c in utf8.codes(s) do
+                if c<128 then o[#o+1]=string.char(c)
+                elseif c<0x10000 then o[#o+1]=string.format('\\\\u%04x',c)
+                else c=c-0x10000;o[#o+1]=string.format('\\\\u%04x\\\\u%04x',0xD800+(c>>10),0xDC00+(c&0x3FF)) end
+            end
+            s=table.concat(o)
+        end
+        return '"'..s..'"'
+    end
+    if t=='table' then
+        local o={}
+        if #v>0 or next(v)==nil then
+            for i=1,#v do o[i]=enc(v[i]) end
+            return '['..table.concat(o,',')..']'
+        end
+        for k,x in pairs(v) do o[#o+1]=enc(tostring(k))..':'..enc(x) end
+        return '{'..table.concat(o,',')..'}'
+    end
+    return enc(tostring(v))
+end
+function _rpc.call(id,n,f,...)
+    local r=table.pack(pcall(f,...))
+    local s
+    if r[1] then
+        local o={}
+        for i=2,r.n do o[i-1]=enc(r[i]) end
+        s='+['..table.concat(o,',')..']'
+    else
+        s='-'..tostring(r[2])
+    end
+    _rpc.r[id]=s
+    return '~q:'..#s..':'.._rpc.part(id,1,n):sub(4)
+end
+function _rpc.part(id,i,n)
+    local s=_rpc.r[id] or ''
+    local j=i+n-1
+    while j<#s and s:byte(j+1)&192==128 do j=j-1 end
+    if j>=#s then _rpc.r[id]=nil end
+    return '~q:'..s:sub(i,j)
+end
+`;
@@ -0,0 +1,278 @@
+/**
+ * LZ4 frame format encoder and decoder, producing frames the Frame firmware can
+ * decompress with `frame.compression.decompress`.
+ *
+ * The encoder uses a greedy single-pass match finder, which trades some compression
+ * ratio for simplicity; every frame it writes can be read by any LZ4 frame decoder.
+ */
+
+const MAGIC = 0x184D2204;
+const BLOCK_MAX_SIZE = 64 * 1024;
+const MIN_MATCH = 4;
+const MF_LIMIT = 12; // the last match must start at least this many bytes before the end of a block
+const LAST_LITERALS = 5; // the last bytes of a block are always literals
+const HASH_LOG = 12;
+
+/**
+ * Compresses data into an LZ4 frame with independent 64KB blocks and no checksums
+ * other than the mandatory header checksum. Blocks that don't shrink are stored uncompressed.
+ * @param data The data to compress.
+ * @returns The LZ4 frame.
+ */
+export function compressLz4Frame(data: Uint8Array): Uint8Array {
+    const out = new ByteWriter(data.byteLength + 32);
+    out.writeUint32(MAGIC);
+    const flg = 0x60; // version 01, independent blocks
+    const bd = 0x40; // 64KB maximum block size
+    out.writeByte(flg);
+    out.writeByte(bd);
+    out.writeByte((xxhash32(new Uint8Array([flg, bd])) >>> 8) & 0xFF);
+
+    for (let offset = 0; offset < data.byteLength; offset += BLOCK_MAX_SIZE) {
+        const block = data.subarray(offset, offset + BLOCK_MAX_SIZE);
+        const compressed = compressBlock(block);
+        if (compressed.byteLength < block.byteLength) {
+            out.writeUint32(compressed.byteLength);
+            out.writeBytes(compressed);
+        } else {
+            out.writeUint32((block.byteLength | 0x80000000) >>> 0);
+            out.writeBytes(block);
+        }
+    }
+    out.writeUint32(0); // end mark
+    return out.toBytes();
+}
+
+/**
+ * Decompresses an LZ4 frame. Block and content checksums are skipped rather than verified.
+ * @param frame The LZ4 frame.
+ * @returns The decompressed data.
+ * @throws Error if the frame is malformed or uses a dictionary.
+ */
+export function decompressLz4Frame(frame: Uint8Array): Uint8Array {
+    const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+    if (frame.byteLength < 7 || view.getUint32(0, true) !== MAGIC) {
+        throw new Error("Not an LZ4 frame.");
+    }
+    const flg = frame[4];
+    if ((flg >> 6) !== 1) {
+        throw new Error(`Unsupported LZ4 frame version ${flg >> 6}.`);
+    }
+    if (flg & 0x01) {
+        throw new Error("LZ4 frames with a dictionary are not supported.");
+    }
+    const hasBlockChecksum = (flg & 0x10) !== 0;
+    const hasContentSize = (flg & 0x08) !== 0;
+    const hasContentChecksum = (flg & 0x04) !== 0;
+    let position = 6 + (hasContentSize ? 8 : 0) + 1; // FLG, BD, content size, header checksum
+
+    const out = new ByteWriter(frame.byteLength * 2);
+    while (true) {
+        if (position + 4 > frame.byteLength) {
+            throw new Error("LZ4 frame truncated.");
+        }
+        const blockSize = view.getUint32(position, true);
+        position += 4;
+        if (blockSize === 0) break;
+
+        const size = blockSize & 0x7FFFFFFF;
+        if (position + size > frame.byteLength) {
+            throw new Error("LZ4 frame truncated.");
+        }
+        const block = frame.subarray(position, position + size);
+        if (blockSize & 0x80000000) {
+            out.writeBytes(block);
+        } else {
+            decompressBlock(block, out);
+        }
+        position += size + (hasBlockChecksum ? 4 : 0);
+    }
+    if (hasContentChecksum && position + 4 > frame.byteLength) {
+        throw new Error("LZ4 frame truncated.");
+    }
+    return out.toBytes();
+}
+
+/**
+ * Compresses a single block into LZ4 sequences.
+ */
+function compressBlock(src: Uint8Array): Uint8Array {
+    const out = new ByteWriter(src.byteLength + Math.ceil(src.byteLength / 255) + 16);
+    const hashTable = new Int32Array(1 << HASH_LOG).fill(-1);
+    const read32 = (i: number) => (src[i] | (src[i + 1] << 8) | (src[i + 2] << 16) | (src[i + 3] << 24)) >>> 0;
+    let anchor = 0;
+    let i = 0;
+    const matchStartLimit = src.byteLength - MF_LIMIT;
+    const matchEndLimit = src.byteLength - LAST_LITERALS;
+
+    while (i < matchStartLimit) {
+        const sequence = read32(i);
+        const hash = Math.imul(sequence, 2654435761) >>> (32 - HASH_LOG);
+        const candidate = hashTable[hash];
+        hashTable[hash] = i;
+        if (candidate < 0 || i - candidate > 0xFFFF || read32(candidate) !== sequence) {
+            i++;
+            continue;
+        }
+
+        let matchLength = MIN_MATCH;
+        while (i + matchLength < matchEndLimit && src[candidate + matchLength] === src[i + matchLength]) {
+            matchLength++;
+        }
+        writeSequence(out, src.subarray(anchor, i), i - candidate, matchLength);
+        i += matchLength;
+        anchor = i;
+    }
+    writeSequence(out, src.subarray(anchor), 0, 0);
+    return out.toBytes();
+}
+
+/**
+ * Writes one LZ4 sequence; a match length of 0 writes the final literals-only sequence.
+ */
+function writeSequence(out: ByteWriter, literals: Uint8Array, offset: number, matchLength: number) {
+    const literalLength = literals.byteLength;
+    const matchCode = matchLength > 0 ? matchLength - MIN_MATCH : 0;
+    out.writeByte((Math.min(literalLength, 15) << 4) | Math.min(matchCode, 15));
+    if (literalLength >= 15) writeLength(out, literalLength - 15);
+    out.writeBytes(literals);
+    if (matchLength === 0) return;
+    out.writeByte(offset & 0xFF);
+    out.writeByte(offset >> 8);
+    if (matchCode >= 15) writeLength(out, matchCode - 15);
+}
+
+function writeLength(out: ByteWriter, length: number) {
+    while (length >= 255) {
+        out.writeByte(255);
+        length -= 255;
+    }
+    out.writeByte(length);
+}
+
+/**
+ * Decodes the LZ4 sequences of a single block, appending the result to `out`.
+ */
+function decompressBlock(src: Uint8Array, out: ByteWriter) {
+    let i = 0;
+    const readLength = (length: number) => {
+        if (length < 15) return length;
+        let byte: number;
+        do {
+            if (i >= src.byteLength) throw new Error("LZ4 block truncated.");
+            byte = src[i++];
+            length += byte;
+        } while (byte === 255);
+        return length;
+    };
+
+    while (i < src.byteLength) {
+        const token = src[i++];
+        const literalLength = readLength(token >> 4);
+        if (i + literalLength > src.byteLength) throw new Error("LZ4 block truncated.");
+        out.writeBytes(src.subarray(i, i + literalLength));
+        i += literalLength;
+        if (i >= src.byteLength) break; // the last sequence has no match
+
+        if (i + 2 > src.byteLength) throw new Error("LZ4 block truncated.");
+        const offset = src[i] | (src[i + 1] << 8);
+        i += 2;
+        const matchLength = readLength(token & 0x0F) + MIN_MATCH;
+        if (offset === 0 || offset > out.length) throw new Error("LZ4 block has an invalid match offset.");
+        out.copyWithin(offset, matchLength);
+    }
+}
+
+/**
+ * Computes the 32-bit xxHash of data, as used for LZ4 frame checksums.
+ */
+function xxhash32(data: Uint8Array, seed = 0): number {
+    const PRIME1 = 2654435761, PRIME2 = 2246822519, PRIME3 = 3266489917, PRIME4 = 668265263, PRIME5 = 374761393;
+    const rotl = (x: number, r: number) => (x << r) | (x >>> (32 - r));
+    const read32 = (i: number) => (data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24)) >>> 0;
+    const round = (acc: number, input: number) => Math.imul(rotl((acc + Math.imul(input, PRIME2)) | 0, 13), PRIME1);
+    const length = data.byteLength;
+    let i = 0;
+    let hash: number;
+
+    if (length >= 16) {
+        let v1 = (seed + PRIME1 + PRIME2) | 0;
+        let v2 = (seed + PRIME2) | 0;
+        let v3 = seed | 0;
+        let v4 = (seed - PRIME1) | 0;
+        for (; i + 16 <= length; i += 16) {
+            v1 = round(v1, read32(i));
+            v2 = round(v2, read32(i + 4));
+            v3 = round(v3, read32(i + 8));
+            v4 = round(v4, read32(i + 12));
+        }
+        hash = (rotl(v1, 1) + rotl(v2, 7) + rotl(v3, 12) + rotl(v4, 18)) | 0;
+    } else {
+        hash = (seed + PRIME5) | 0;
+    }
+    hash = (hash + length) | 0;
+
+    for (; i + 4 <= length; i += 4) {
+        hash = Math.imul(rotl((hash + Math.imul(read32(i), PRIME3)) | 0, 17), PRIME4);
+    }
+    for (; i < length; i++) {
+        hash = Math.imul(rotl((hash + Math.imul(data[i], PRIME5)) | 0, 11), PRIME1);
+    }
+    hash ^= hash >>> 15;
+    hash = Math.imul(hash, PRIME2);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, PRIME3);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+}
+
+/**
+ * A growable byte buffer.
+ */
+class ByteWriter {
+    private buffer: Uint8Array;
+    public length = 0;
+
+    constructor(initialCapacity: number) {
+        this.buffer = new Uint8Array(Math.max(initialCapacity, 16));
+    }
+
+    public writeByte(value: number) {
+        this.ensure(1);
+        this.buffer[this.length++] = value;
+    }
+
+    public writeUint32(value: number) {
+        this.ensure(4);
+        new DataView(this.buffer.buffer).setUint32(this.length, value, true);
+        this.length += 4;
+    }
+
+    public writeBytes(bytes: Uint8Array) {
+        this.ensure(bytes.byteLength);
+        this.buffer.set(bytes, this.length);
+        this.length += bytes.byteLength;
+    }
+
+    /**
+     * Appends `length` bytes copied from `offset` bytes back; the regions may overlap.
+     */
+    public copyWithin(offset: number, length: number) {
+        this.ensure(length);
+        for (let i = 0; i < length; i++) {
+            this.buffer[this.length] = this.buffer[this.length - offset];
+            this.length++;
+        }
+    }
+
+    public toBytes(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+
+    private ensure(extra: number) {
+        if (this.length + extra <= this.buffer.byteLength) return;
+        const grown = new Uint8Array(Math.max(this.buffer.byteLength * 2, this.length + extra));
+        grown.set(this.buffer.subarray(0, this.length));
+        this.buffer = grown;
+    }
+}
@@ -0,0 +1,108 @@
+/**
+ * Reassembles multi-packet messages received from the device, using the same framing
+ * as `FrameBle.sendMessage`: the first packet carries the message code, a 16-bit
+ * big-endian total size and the first chunk of the payload; each continuation packet
+ * carries the message code followed by the next chunk.
+ *
+ * Messages with different codes may be interleaved; each code has its own buffer.
+ * Since the framing has no start marker, a packet for a code with a message in progress
+ * is always treated as a continuation of that message.
+ */
+export class MessageAssembler {
+    private readonly inProgress = new Map<number, {
+        buffer: Uint8Array;
+        received: number;
+        timeoutId: NodeJS.Timeout;
+    }>();
+
+    /**
+     * Creates a message assembler.
+     * @param onMessage Called with the message code and payload of each complete message.
+     * @param onError Called with the message code and reason when a partial message is discarded.
+     * @param stallTimeout Time in milliseconds without a packet after which a partial message is discarded.
+     */
+    constructor(
+        private readonly onMessage: (msgCode: number, payload: Uint8Array) => void,
+        private readonly onError: (msgCode: number, error: Error) => void,
+        private readonly stallTimeout: number,
+    ) {}
+
+    /**
+     * Feeds a data packet (without its 0x01 prefix) into the assembler.
+     * @param data The packet payload, starting with the message code.
+     */
+    public accept(data: Uint8Array): void {
+        if (data.byteLength === 0) return;
+        const msgCode = data[0];
+        const pending = this.inProgress.get(msgCode);
+
+        if (!pending) {
+            if (data.byteLength < 3) {
+                this.onError(msgCode, new Error(`Message ${msgCode} header truncated: got ${data.byteLength} bytes`));
+                return;
+            }
+            const totalSize = (data[1] << 8) | data[2];
+            const chunk = data.subarray(3);
+            if (chunk.byteLength > totalSize) {
+                this.onError(msgCode, new Error(`Message ${msgCode} size mismatch: declared ${totalSize} bytes, first packet carries ${chunk.byteLength}`));
+                return;
+            }
+            const buffer = new Uint8Array(totalSize);
+            buffer.set(chunk, 0);
+            if (chunk.byteLength === totalSize) {
+                this.onMessage(msgCode, buffer);
+                return;
+            }
+            this.inProgress.set(msgCode, {
+                buffer,
+                received: chunk.byteLength,
+                timeoutId: this.startStallTimer(msgCode),
+            });
+            return;
+        }
+
+        const chunk = data.subarray(1);
+        clearTimeout(pending.timeoutId);
+        if (pending.received + chunk.byteLength > pending.buffer.byteLength) {
+            this.inProgress.delete(msgCode);
+            this.onError(msgCode, new Error(`Message ${msgCode} size mismatch: declared ${pending.buffer.byteLength} bytes, received at least ${pending.received + chunk.byteLength}`));
+            return;
+        }
+        pending.buffer.set(chunk, pending.received);
+        pending.received += chunk.byteLength;
+
+        if (pending.received === pending.buffer.byteLength) {
+            this.inProgress.delete(msgCode);
+            this.onMessage(msgCode, pending.buffer);
+        } else {
+            pending.timeoutId = this.startStallTimer(msgCode);
+        }
+    }
+
+    /**
+     * @param msgCode The message code to check.
+     * @returns True if a partial message with this code is being assembled.
+     */
+    public has(msgCode: number): boolean {
+        return this.inProgress.has(msgCode);
+    }
+
+    /**
+     * Discards all partial messages, e.g. after a disconnect.
+     */
+    public reset(): void {
+        for (const pending of this.inProgress.values()) {
+            clearTimeout(pending.timeoutId);
+        }
+        this.inProgress.clear();
+    }
+
+    private startStallTimer(msgCode: number): NodeJS.Timeout {
+        return setTimeout(() => {
+            const pending = this.inProgress.get(msgCode);
+            if (!pending) return;
+            this.inProgress.delete(msgCode);
+            this.onError(msgCode, new Error(`Message ${msgCode} stalled: received ${pending.received} of ${pending.buffer.byteLength} bytes within ${this.stallTimeout}ms.`));
+        }, this.stallTimeout);
+    }
+}
@@ -0,0 +1,116 @@
+import { compressLz4Frame } from './lz4';
+
+/**
+ * Lua module for the device that receives messages sent with `FrameBle.sendMessage`.
+ * Deploy it (e.g. as "message_receiver.lua") and feed it every data packet from the app's receive callback:
+ *
+ * ```lua
+ * local message_receiver = require('message_receiver')
+ * frame.bluetooth.receive_callback(function(data)
+ *     local code, payload = message_receiver.receive(data)
+ *     if code then handle_message(code, payload) end
+ * end)
+ * ```
+ *
+ * `receive` stitches the packets of each message code together and returns the code and payload once
+ * a message is complete. It acknowledges each packet with the message code and the number of payload
+ * bytes received so far, which lets `sendMessage` keep several packets in flight (see its `windowSize`).
+ */
+export const MESSAGE_RECEIVER_LUA = `-- Receives messages sent with FrameBle.sendMessage
+local M = {}
+local pending = {}
+
+-- Feeds one data packet; returns msg_code, payload once a message is complete
+function M.receive(data)
+    local code = string.byte(data, 1)
+    local p = pending[code]
+    if p == nil then
+        p = { size = (string.byte(data, 2) << 8) | string.byte(data, 3), n = 0, parts = {} }
+        pending[code] = p
+        data = string.sub(data, 4)
+    else
+        data = string.sub(data, 2)
+    end
+    p.parts[#p.parts + 1] = data
+    p.n = p.n + #data
+    frame.bluetooth.send(string.char(code, p.n >> 8, p.n & 0xFF))
+    if p.n < p.size then return nil end
+
+    pending[code] = nil
+    return code, table.concat(p.parts)
+end
+
+return M
+`;
+
+/**
+ * Lua module for the device that receives messages sent with `FrameBle.sendCompressedMessage`.
+ * Deploy it (e.g. as "compressed_msg.lua") and feed it every data packet from the app's receive callback:
+ *
+ * ```lua
+ * local compressed_msg = require('compressed_msg')
+ * frame.bluetooth.receive_callback(function(data)
+ *     local code, payload = compressed_msg.receive(data)
+ *     if code then handle_message(code, payload) end
+ * end)
+ * ```
+ *
+ * `receive` acknowledges each packet the same way as `MESSAGE_RECEIVER_LUA`, stitches the packets of each
+ * message code together and returns the code and decompressed payload once a message is complete.
+ */
+export const COMPRESSED_MESSAGE_LUA = `-- Receives messages sent with FrameBle.sendCompressedMessage
+local M = {}
+local pending = {}
+local out
+
+frame.compression.process_function(function(data) out[#out + 1] = data end)
+
+-- Feeds one data packet; returns msg_code, payload once a message is complete
+function M.receive(data)
+    local code = string.byte(data, 1)
+    local p = pending[code]
+    if p == nil then
+        p = { size = (string.byte(data, 2) << 8) | string.byte(data, 3), n = 0, parts = {} }
+        pending[code] = p
+        data = string.sub(data, 4)
+    else
+        data = string.sub(data, 2)
+    end
+    p.parts[#p.parts + 1] = data
+    p.n = p.n + #data
+    frame.bluetooth.send(string.char(code, p.n >> 8, p.n & 0xFF))
+    if p.n < p.size then return nil end
+
+    pending[code] = nil
+    local msg = table.concat(p.parts)
+    if string.byte(msg, 1) == 0 then return code, string.sub(msg, 2) end
+    local size = (string.byte(msg, 2) << 8) | string.byte(msg, 3)
+    out = {}
+    frame.compression.decompress(string.sub(msg, 4), 1024)
+    return code, string.sub(table.concat(out), 1, size)
+end
+
+return M
+`;
+
+/**
+ * Encodes a payload for `COMPRESSED_MESSAGE_LUA`: a 0 byte followed by the payload as is, or, if that
+ * is smaller, a 1 byte, the payload size as a 16-bit big-endian number and the payload as an LZ4 frame.
+ * @param payload The payload to encode.
+ * @returns The encoded message payload.
+ */
+export function encodeCompressedMessage(payload: Uint8Array): Uint8Array {
+    const compressed = compressLz4Frame(payload);
+    if (compressed.byteLength + 3 >= payload.byteLength + 1) {
+        const message = new Uint8Array(payload.byteLength + 1);
+        message[0] = 0;
+        message.set(payload, 1);
+        return message;
+    }
+    const message = new Uint8Array(compressed.byteLength + 3);
+    message[0] = 1;
+    message[1] = payload.byteLength >> 8;
+    message[2] = payload.byteLength & 0xFF;
+    message.set(compressed, 3);
+    return message;
+}
@@ -0,0 +1,186 @@
+import { FrameLogger, createConsoleLogger } from './logger';
+import { FrameTrace, TracePacket, fromHex, toHex } from './trace';
+import { DeviceSelectionOptions, FrameTransport } from './transport';
+
+/**
+ * Options for a `ReplayTransport`.
+ */
+export interface ReplayOptions {
+    /** The device name reported after `requestDevice`. Defaults to "Frame Replay". */
+    name?: string;
+    /**
+     * Multiplier for the recorded delay between a sent packet and the received packets that followed it.
+     * 1 replays at the recorded pace, 0 delivers received packets as soon as possible. Defaults to 0.
+     */
+    timeScale?: number;
+    /** If true, a sent packet that differs from the recorded one makes `write` throw. Defaults to false. */
+    strict?: boolean;
+}
+
+/**
+ * A sent packet that didn't match the trace being replayed.
+ */
+export interface ReplayMismatch {
+    /** The index of the expected packet in the trace, or the trace length if the trace was exhausted. */
+    index: number;
+    /** The recorded packet as hex, or undefined if no more packets were expected. */
+    expected?: string;
+    /** The packet actually sent, as hex. */
+    actual: string;
+}
+
+/**
+ * Transport that replays a trace captured with a `TraceRecorder`, so a session recorded
+ * on a user's device can be reproduced without the device.
+ *
+ * Each packet `FrameBle` sends is checked against the next recorded 'tx' packet, and the
+ * 'rx' packets recorded after it are delivered in reply. Received packets recorded before the
+ * first sent packet are delivered when the link is opened. Packets that differ from the trace
+ * are collected in `mismatches` (or rejected, with `strict`) and the replay carries on.
+ */
+export class ReplayTransport implements FrameTransport {
+    /** Sent packets that didn't match the trace, in order. */
+    public readonly mismatches: ReplayMismatch[] = [];
+
+    private readonly packets: TracePacket[];
+    private readonly name: string;
+    private readonly timeScale: number;
+    private readonly strict: boolean;
+    private logger: FrameLogger = createConsoleLogger();
+
+    private position = 0;
+    private selected = false;
+    private connected = false;
+    private readonly timeoutIds = new Set<NodeJS.Timeout>();
+
+    private onNotification?: (data: Uint8Array) => void;
+    private onDisconnect?: () => void;
+
+    /**
+     * Creates a transport that replays a trace.
+     * @param trace The trace, either as returned by `TraceRecorder.toJSON` or as its JSON string.
+     * @param options Optional configuration for the replay.
+     * @throws Error if the trace is not a supported trace.
+     */
+    constructor(trace: FrameTrace | string, options: ReplayOptions = {}) {
+        const parsed: FrameTrace = typeof trace === 'string' ? JSON.parse(trace) : trace;
+        if (parsed?.version !== 1 || !Array.isArray(parsed.packets)) {
+            throw new Error("Unsupported trace: expected a version 1 trace with a packets array.");
+        }
+        this.packets = parsed.packets;
+        this.name = options.name ?? "Frame Replay";
+        this.timeScale = options.timeScale ?? 0;
+        this.strict = options.strict ?? false;
+    }
+
+    /**
+     * @returns True if every packet in the trace has been sent or delivered.
+     */
+    public isComplete(): boolean {
+        return this.position >= this.packets.length;
+    }
+
+    public setLogger(logger: FrameLogger): void {
+        this.logger = logger;
+    }
+
+    public setNotificationHandler(handler: ((data: Uint8Array) => void) | undefined): void {
+        this.onNotification = handler;
+    }
+
+    public setDisconnectHandler(handler: (() => void) | undefined): void {
+        this.onDisconnect = handler;
+    }
+
+    public async requestDevice(_options: DeviceSelectionOptions): Promise<void> {
+        this.selected = true;
+    }
+
+    public async reselectDevice(): Promise<boolean> {
+        this.selected = true;
+        return true;
+    }
+
+    public hasDevice(): boolean {
+        return this.selected;
+    }
+
+    public getDeviceName(): string | undefined {
+        return this.selected ? this.name : undefined;
+    }
+
+    public async open(): Promise<void> {
+        if (!this.selected) {
+            throw new Error("No replay device selected.");
+        }
+        this.connected = true;
+        this.deliverReceived(this.packets[this.position]?.time ?? 0);
+    }
+
+    public async close(): Promise<void> {
+        this.connected = false;
+        for (const timeoutId of this.timeoutIds) {
+            clearTimeout(timeoutId);
+        }
+        this.timeoutIds.clear();
+        if (this.onDisconnect) {
+            this.onDisconnect();
+        }
+    }
+
+    public forget(): void {
+        this.connected = false;
+        this.selected = false;
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    /**
+     * Checks the packet against the next recorded 'tx' packet, then delivers the 'rx' packets recorded after it.
+     * @throws Error if not connected, or in strict mode if the packet doesn't match the trace.
+     */
+    public async write(packet: Uint8Array): Promise<void> {
+        if (!this.connected) {
+            throw new Error("Not connected to replay device.");
+        }
+        const index = this.position;
+        const expected = this.packets[index];
+        const actual = toHex(packet);
+
+        if (!expected || expected.data !== actual) {
+            const mismatch: ReplayMismatch = { index, expected: expected?.data, actual };
+            this.mismatches.push(mismatch);
+            this.logger.warn(`Replay mismatch at packet ${index}: expected ${mismatch.expected ?? "end of trace"}, sent ${actual}`);
+            if (this.strict) {
+                throw new Error(`Sent packet doesn't match trace at packet ${index}: expected ${mismatch.expected ?? "end of trace"}, got ${actual}`);
+            }
+        }
+        if (!expected) return;
+
+        this.position++;
+        this.deliverReceived(expected.time);
+    }
+
+    public isRetryableError(_error: unknown): boolean {
+        return false;
+    }
+
+    /**
+     * Delivers the 'rx' packets from the current position up to the next 'tx' packet,
+     * spaced by their recorded times (scaled by `timeScale`) relative to `fromTime`.
+     */
+    private deliverReceived(fromTime: number): void {
+        while (this.position < this.packets.length && this.packets[this.position].direction === 'rx') {
+            const packet = this.packets[this.position++];
+            const timeoutId = setTimeout(() => {
+                this.timeoutIds.delete(timeoutId);
+                if (this.connected && this.onNotification) {
+                    this.onNotification(fromHex(packet.data));
+                }
+            }, Math.max(0, packet.time - fromTime) * this.timeScale);
+            this.timeoutIds.add(timeoutId);
+        }
+    }
+}
@@ -0,0 +1,1209 @@
+import { crc32 } from './checksum';
+import { FrameConnectionError, FrameGattError } from './errors';
+import { parseLuaLiterals } from './lua-rpc';
+import { decompressLz4Frame } from './lz4';
+import { DeviceSelectionOptions, FrameTransport } from './transport';
+
+/**
+ * A scripted reply to a Lua chunk sent to a `SimulatedFrameTransport`.
+ * The first responder whose `pattern` matches the whole chunk handles it.
+ */
+export interface SimulatedLuaResponder {
+    /** A string matched exactly against the Lua chunk, or a RegExp tested against it. */
+    pattern: string | RegExp;
+    /**
+     * Called with the match result; returns the line(s) the device prints in reply, if any.
+     * Throwing an Error simulates a Lua error, which the device prints with the chunk's location
+     * the way the Lua runtime does (`[string "chunk"]:1: message`).
+     */
+    respond: (match: RegExpMatchArray, device: SimulatedFrameTransport) => string | string[] | void;
+}
+
+/**
+ * Options for a `SimulatedFrameTransport`.
+ */
+export interface SimulatedFrameOptions {
+    /** The device name reported after `requestDevice`. Defaults to "Frame Sim". */
+    name?: string;
+    /** The value printed for `frame.bluetooth.max_length()`. Defaults to 240. */
+    maxLength?: number;
+    /** Delay in milliseconds applied to each packet in either direction. Defaults to 0. */
+    latencyMs?: number;
+    /** Probability (0-1) that a packet in either direction is silently dropped. Defaults to 0. */
+    dropRate?: number;
+    /** Random number source used for `dropRate`. Defaults to Math.random. */
+    random?: () => number;
+    /** The value of `frame.FIRMWARE_VERSION`. Defaults to "v25.080.0838". */
+    firmwareVersion?: string;
+    /** The initial value returned by `frame.battery_level()`. Defaults to 100. */
+    batteryLevel?: number;
+    /** The initial value returned by `collectgarbage('count')`, in kilobytes. Defaults to 32. */
+    memoryUsageKb?: number;
+    /** The JPEG sent for each `FrameBle.captureImage`. Defaults to a small placeholder with JPEG start and end markers. */
+    cameraImage?: Uint8Array;
+    /** Number of initial `open()` calls that fail with a retryable error. Defaults to 0. */
+    failConnectAttempts?: number;
+    /** Responders consulted before the built-in ones. */
+    responders?: SimulatedLuaResponder[];
+    /**
+     * Handler for 0x01 data packets, called with the payload without its prefix.
+     * This plays the role of the device's `frame.bluetooth.receive_callback`, so it is
+     * replaced while `uploadFileFromBytes` runs and cleared by a reset signal.
+     */
+    onData?: (data: Uint8Array, device: SimulatedFrameTransport) => void;
+}
+
+/**
+ * Transport that emulates the device side of a Frame in memory, so `FrameBle` can be
+ * exercised in Node without glasses or a browser.
+ *
+ * Packets prefixed with 0x01 go to the data handler, 0x03 and 0x04 are recorded as
+ * break and reset signals, and anything else is treated as a Lua chunk and answered
+ * by the first matching responder (which may throw to simulate a Lua error); a chunk of several statements
+ * that no helper responder matches is answered one statement at a time. Anything else, e.g. variables, expressions and control flow, is not run.
+ * Built-in responders cover `frame.bluetooth.max_length()`, `print` of literal values and of the
+ * firmware version, battery level and memory usage (concatenated with `..`), `error` with such a message,
+ * the `frame.file` calls made by `uploadFileFromString`, `uploadFileFromBytes` and the file
+ * system methods of `FrameBle`, the buffer used by `evalLua`, whose snippet is in turn evaluated by
+ * the responders, calls made with `FrameBle.call` to functions set up with `defineLuaFunction`,
+ * the `frame.display` commands and sprite renderer used by `FrameDisplay`, the capture script of `FrameBle.captureImage`,
+ * the streaming script of `FrameBle.startAudio`, which streams a 440 Hz tone until a break signal, the event script
+ * of `FrameBle.onTap` and `FrameBle.streamImu`, which reports `simulateTap()` taps and the `imu` values, and the helper
+ * of `LuaRepl`, which runs its chunks through the responders and completes names of the `frame` API and common globals,
+ * and the power commands of `FrameBle`, recorded in `power`; a deep sleep drops the link until `simulateWake()`.
+ */
+export class SimulatedFrameTransport implements FrameTransport {
+    /** Files written on the simulated device, keyed by path without a leading "/". */
+    public readonly files = new Map<string, Uint8Array>();
+    /** Directories created on the simulated device, without a leading "/". */
+    public readonly directories = new Set<string>();
+    /** Every Lua chunk received, in order. */
+    public readonly luaHistory: string[] = [];
+    /** Every data payload received (without the 0x01 prefix), in order. */
+    public readonly dataHistory: Uint8Array[] = [];
+    /** Every break (0x03) and reset (0x04) signal received, in order. */
+    public readonly signalHistory: ('break' | 'reset')[] = [];
+    /** Every bitmap drawn by the sprite renderer of `FrameDisplay`, in order. */
+    public readonly bitmaps: { x: number; y: number; width: number; height: number; bitsPerPixel: number; paletteOffset: number; palette: number[][]; data: Uint8Array }[] = [];
+    /** The JPEG sent for each `FrameBle.captureImage`; replace it to simulate different photos. */
+    public cameraImage: Uint8Array;
+    /** The IMU values reported to `FrameBle.streamImu`; change them to simulate head movement. */
+    public imu = {
+        roll: 0,
+        pitch: 0,
+        heading: 0,
+        accelerometer: { x: 0, y: 0, z: 4096 },
+        compass: { x: 0, y: 0, z: 0 },
+    };
+    /**
+     * The power state set by the power management methods of `FrameBle`. While `asleep` (after `frame.sleep()`),
+     * the device drops the link and can't be connected to until `simulateWake()`.
+     */
+    public readonly power = {
+        stayAwake: false,
+        displayPowerSave: false,
+        cameraAsleep: false,
+        asleep: false,
+    };
+    /** The value returned by `frame.battery_level()`; change it to simulate charging or draining. */
+    public batteryLevel: number;
+    /** The value returned by `collectgarbage('count')`, in kilobytes; change it to simulate memory use. */
+    public memoryUsageKb: number;
+
+    private readonly name: string;
+    private readonly firmwareVersion: string;
+    private readonly maxLength: number;
+    private readonly latencyMs: number;
+    private readonly dropRate: number;
+    private readonly random: () => number;
+    private failConnectAttempts: number;
+    private readonly responders: SimulatedLuaResponder[];
+    private onData?: (data: Uint8Array, device: SimulatedFrameTransport) => void;
+
+    private selected = false;
+    private everSelected = false;
+    private connected = false;
+    private openFile?: { path: string; content: string };
+    private evalBuffer?: string[];
+    private evalReply?: Uint8Array;
+    private readFile?: { content: Uint8Array; offset: number };
+    private listing?: { name: string; size: number; type: number }[];
+    private upload?: { path: string; chunks: Uint8Array[]; decompressedSize?: number };
+    private readonly luaFunctions = new Map<string, (...args: unknown[]) => unknown>();
+    private rpcInstalled = false;
+    private cameraInstalled = false;
+    private audioInstalled = false;
+    private eventsInstalled = false;
+    private replInstalled = false;
+    private readonly replBuffer: string[] = [];
+    private tapArmed = false;
+    private audioTimer?: NodeJS.Timeout;
+    private readonly rpcReplies = new Map<number, Uint8Array>();
+
+    private onNotification?: (data: Uint8Array) => void;
+    private onDisconnect?: () => void;
+
+    /**
+     * Creates a simulated Frame device.
+     * @param options Optional configuration for the simulated device and link.
+     */
+    constructor(options: SimulatedFrameOptions = {}) {
+        this.name = options.name ?? "Frame Sim";
+        this.firmwareVersion = options.firmwareVersion ?? "v25.080.0838";
+        this.batteryLevel = options.batteryLevel ?? 100;
+        this.memoryUsageKb = options.memoryUsageKb ?? 32;
+        this.cameraImage = options.cameraImage ?? placeholderJpeg();
+        this.maxLength = options.maxLength ?? 240;
+        this.latencyMs = options.latencyMs ?? 0;
+        this.dropRate = options.dropRate ?? 0;
+        this.random = options.random ?? Math.random;
+        this.failConnectAttempts = options.failConnectAttempts ?? 0;
+        this.onData = options.onData;
+        this.responders = [...(options.responders ?? []), ...this.builtInResponders()];
+    }
+
+    /**
+     * Adds a responder that takes precedence over those already registered.
+     * @param responder The responder to add.
+     */
+    public addLuaResponder(responder: SimulatedLuaResponder): void {
+        this.responders.unshift(responder);
+    }
+
+    /**
+     * Defines a Lua function that `FrameBle.call` can call on the simulated device.
+     * @param name The function name, as passed to `FrameBle.call`.
+     * @param fn Called with the arguments (tables as arrays or objects, `nil` as null); its return value is sent
+     * back to the caller, and throwing an Error simulates a Lua error raised by the function.
+     */
+    public defineLuaFunction(name: string, fn: (...args: unknown[]) => unknown): void {
+        this.luaFunctions.set(name, fn);
+    }
+
+    /**
+     * Sets or updates the handler for data packets received by the simulated device.
+     * @param handler The handler, or undefined to ignore data packets.
+     */
+    public setDataReceiver(handler: ((data: Uint8Array, device: SimulatedFrameTransport) => void) | undefined): void {
+        this.onData = handler;
+    }
+
+    /**
+     * Sends a print string from the simulated device to the host.
+     * @param text The printed text.
+     */
+    public emitPrint(text: string): void {
+        this.notify(new TextEncoder().encode(text));
+    }
+
+    /**
+     * Sends a data packet (prefixed with 0x01) from the simulated device to the host.
+     * @param data The payload to send.
+     */
+    public emitData(data: Uint8Array): void {
+        const packet = new Uint8Array(data.byteLength + 1);
+        packet[0] = 0x01;
+        packet.set(data, 1);
+        this.notify(packet);
+    }
+
+    /**
+     * Makes the next `open()` calls fail with a retryable error, e.g. to exercise reconnection.
+     * @param count The number of `open()` calls that fail.
+     */
+    public failNextConnectAttempts(count: number): void {
+        this.failConnectAttempts = count;
+    }
+
+    /**
+     * Taps the glasses: sends a tap event if `FrameBle.onTap` has set the tap callback.
+     */
+    public simulateTap(): void {
+        if (this.connected && this.tapArmed) this.emitData(new Uint8Array([0x0A]));
+    }
+
+    /**
+     * Wakes the device from deep sleep, e.g. as if it was tapped, so it can be connected to again.
+     */
+    public simulateWake(): void {
+        this.power.asleep = false;
+    }
+
+    /**
+     * Drops the link as if the device went out of range, firing the disconnect handler.
+     */
+    public simulateDisconnect(): void {
+        if (!this.connected) return;
+        this.handleDisconnect();
+    }
+
+    public setNotificationHandler(handler: ((data: Uint8Array) => void) | undefined): void {
+        this.onNotification = handler;
+    }
+
+    public setDisconnectHandler(handler: (() => void) | undefined): void {
+        this.onDisconnect = handler;
+    }
+
+    public async requestDevice(_options: DeviceSelectionOptions): Promise<void> {
+        this.selected = true;
+        this.everSelected = true;
+    }
+
+    public async reselectDevice(): Promise<boolean> {
+        this.selected = this.everSelected;
+        return this.selected;
+    }
+
+    public hasDevice(): boolean {
+        return this.selected;
+    }
+
+    public getDeviceName(): string | undefined {
+        return this.selected ? this.name : undefined;
+    }
+
+    public async open(onDiscovering?: () => void): Promise<void> {
+        if (!this.selected) {
+            throw new FrameConnectionError("No simulated device selected.");
+        }
+        await this.delay();
+        if (this.power.asleep) {
+            throw new FrameGattError("Simulated device is asleep.", true);
+        }
+        if (this.failConnectAttempts > 0) {
+            this.failConnectAttempts--;
+            throw new FrameGattError("Connection attempt failed.", true);
+        }
+        onDiscovering?.();
+        this.connected = true;
+    }
+
+    public async close(): Promise<void> {
+        this.handleDisconnect();
+    }
+
+    public forget(): void {
+        this.connected = false;
+        this.selected = false;
+        this.everSelected = false;
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    public async write(packet: Uint8Array): Promise<void> {
+        this.checkWritable(packet);
+        const copy = packet.slice();
+        await this.delay();
+        if (!this.connected || this.shouldDrop()) return;
+        this.receive(copy);
+    }
+
+    /**
+     * Like `write`, but resolves immediately; the packet arrives after the simulated latency.
+     */
+    public async writeWithoutResponse(packet: Uint8Array): Promise<void> {
+        this.checkWritable(packet);
+        const copy = packet.slice();
+        setTimeout(() => {
+            if (!this.connected || this.shouldDrop()) return;
+            this.receive(copy);
+        }, this.latencyMs);
+    }
+
+    public isRetryableError(error: unknown): boolean {
+        return error instanceof FrameGattError && error.retryable;
+    }
+
+    private checkWritable(packet: Uint8Array): void {
+        if (!this.connected) {
+            throw new Error("Not connected to simulated device.");
+        }
+        if (packet.byteLength > this.maxLength) {
+            throw new Error(`Packet length ${packet.byteLength} exceeds simulated max length ${this.maxLength}`);
+        }
+    }
+
+    /**
+     * Handles a packet that reached the simulated device.
+     */
+    private receive(copy: Uint8Array): void {
+        if (copy[0] === 0x01) {
+            const data = copy.subarray(1);
+            this.dataHistory.push(data);
+            if (this.onData) this.onData(data, this);
+        } else if (copy.byteLength === 1 && copy[0] === 0x03) {
+            this.signalHistory.push('break');
+            if (this.audioTimer) {
+                this.stopAudioStream();
+                this.emitData(new Uint8Array([0x06]));
+            }
+        } else if (copy.byteLength === 1 && copy[0] === 0x04) {
+            this.signalHistory.push('reset');
+            this.resetLuaState();
+        } else {
+            this.runLua(new TextDecoder().decode(copy));
+        }
+    }
+
+    /**
+     * Clears the Lua state, as a reset signal or waking from deep sleep does.
+     */
+    private resetLuaState(): void {
+        this.openFile = undefined;
+        this.evalBuffer = undefined;
+        this.evalReply = undefined;
+        this.readFile = undefined;
+        this.listing = undefined;
+        this.upload = undefined;
+        this.onData = undefined;
+        this.rpcInstalled = false;
+        this.rpcReplies.clear();
+        this.cameraInstalled = false;
+        this.audioInstalled = false;
+        this.eventsInstalled = false;
+        this.replInstalled = false;
+        this.tapArmed = false;
+        this.stopAudioStream();
+    }
+
+    private handleDisconnect(): void {
+        this.stopAudioStream();
+        this.connected = false;
+        this.selected = false;
+        this.openFile = undefined;
+        if (this.onDisconnect) {
+            this.onDisconnect();
+        }
+    }
+
+    private runLua(chunk: string): void {
+        this.luaHistory.push(chunk);
+        let lines: string[];
+        try {
+            lines = this.evaluate(chunk);
+        } catch (error) {
+            lines = [`[string "${luaChunkId(chunk)}"]:1: ${error instanceof Error ? error.message : String(error)}`];
+        }
+        for (const line of lines) {
+            this.emitPrint(line);
+        }
+    }
+
+    /**
+     * Runs a Lua chunk through the responders and returns the lines it prints.
+     * A responder may throw to simulate a Lua error. A chunk no responder matches is run
+     * one statement at a time, so e.g. several `print` calls each print their line.
+     */
+    private evaluate(chunk: string): string[] {
+        for (const responder of this.responders) {
+            const match = typeof responder.pattern === 'string'
+                ? (chunk === responder.pattern ? Object.assign([chunk], { index: 0, input: chunk }) as RegExpMatchArray : null)
+                : chunk.match(responder.pattern);
+            if (!match) continue;
+
+            const output = responder.respond(match, this);
+            if (output === undefined) return [];
+            return Array.isArray(output) ? output : [output];
+        }
+        return this.evaluateStatements(chunk) ?? [];
+    }
+
+    /**
+     * Runs a chunk of several statements one statement at a time, e.g. `print('a')\nprint('b')`,
+     * which the `print` responder would otherwise take for a single call.
+     * @returns The printed lines, or undefined if the chunk is a single statement.
+     */
+    private evaluateStatements(chunk: string): string[] | undefined {
+        const statements = splitStatements(chunk);
+        return statements.length > 1 ? statements.flatMap(statement => this.evaluate(statement)) : undefined;
+    }
+
+    private builtInResponders(): SimulatedLuaResponder[] {
+        return [
+            {
+                pattern: "print(frame.bluetooth.max_length())",
+                respond: () => String(this.maxLength),
+            },
+            {
+                pattern: /^f=frame\.file\.open\('(.*)','w'\);print\(1\)$/s,
+                respond: (match) => {
+                    this.openFile = { path: normalizePath(match[1]), content: "" };
+                    return "1";
+                },
+            },
+            {
+                pattern: /^f:write\("(.*)"\);print\(1\)$/s,
+                respond: (match) => {
+                    if (!this.openFile) return "attempt to index a nil value (global 'f')";
+                    this.openFile.content += unescapeLuaString(match[1]);
+                    return "1";
+                },
+            },
+            {
+                pattern: /^f:close\(\);(?:pcall\(frame\.file\.remove,'(.*)'\);)?print\(nil\)$/s,
+                respond: (match) => {
+                    if (this.openFile) {
+                        this.files.set(this.openFile.path, new TextEncoder().encode(this.openFile.content));
+                        this.openFile = undefined;
+                    }
+                    if (match[1] !== undefined) {
+                        this.files.delete(normalizePath(unescapeLuaString(match[1])));
+                    }
+                    return "nil";
+                },
+            },
+            ...this.fileSystemResponders(),
+            {
+                pattern: "_evb={};print(1)",
+                respond: () => {
+                    this.evalBuffer = [];
+                    return "1";
+                },
+            },
+            {
+                pattern: /^_evb\[#_evb\+1\]="(.*)";print\(1\)$/s,
+                respond: (match) => {
+                    if (!this.evalBuffer) return "attempt to index a nil value (global '_evb')";
+                    this.evalBuffer.push(unescapeLuaString(match[1]));
+                    return "1";
+                },
+            },
+            {
+                pattern: "local f=load(table.concat(_evb));_evb=nil;f()",
+                respond: () => {
+                    const program = (this.evalBuffer ?? []).join("");
+                    this.evalBuffer = undefined;
+                    const src = program.match(/^local src=\[(=*)\[\n(.*)\]\1\]\nlocal out=/s);
+                    const partSize = program.match(/_evp\(1,(\d+)\):sub\(4\)\)\n$/);
+                    if (!src || !partSize) return "malformed eval program";
+                    let reply: string;
+                    try {
+                        reply = "+" + this.evaluate(src[2]).join("\n");
+                    } catch (error) {
+                        reply = "-eval:1: " + (error instanceof Error ? error.message : String(error));
+                    }
+                    this.evalReply = new TextEncoder().encode(reply);
+                    return `${this.evalReply.byteLength}:` + this.evalPart(1, parseInt(partSize[1])).substring(3);
+                },
+            },
+            {
+                pattern: /^print\(_evp\((\d+),(\d+)\)\)$/,
+                respond: (match) => this.evalPart(parseInt(match[1]), parseInt(match[2])),
+            },
+            ...this.rpcResponders(),
+            ...this.displayResponders(),
+            ...this.cameraResponders(),
+            ...this.audioResponders(),
+            ...this.eventResponders(),
+            ...this.replResponders(),
+            ...this.powerResponders(),
+            {
+                // the receiver installed by FrameBle.benchmarkThroughput
+                pattern: /^local n,s=\{\},\{\}\nframe\.bluetooth\.receive_callback\(function\(d\)\n/,
+                respond: () => {
+                    const messages = new Map<number, { size: number; received: number }>();
+                    this.setDataReceiver((data) => {
+                        const code = data[0];
+                        let message = messages.get(code);
+                        if (!message || message.received >= message.size) {
+                            message = { size: (data[1] << 8) | data[2], received: data.byteLength - 3 };
+                            messages.set(code, message);
+                        } else {
+                            message.received += data.byteLength - 1;
+                        }
+                        this.emitData(new Uint8Array([code, message.received >> 8, message.received & 0xFF]));
+                    });
+                },
+            },
+            {
+                pattern: "frame.bluetooth.receive_callback(nil)",
+                respond: () => {
+                    this.setDataReceiver(undefined);
+                },
+            },
+            {
+                pattern: /^print\((.*)\)$/s,
+                respond: (match) => this.evaluateStatements(match[0]) ?? this.formatPrintArgument(match[1].trim()),
+            },
+            {
+                pattern: /^error\((.*)\)$/s,
+                respond: (match) => {
+                    const lines = this.evaluateStatements(match[0]);
+                    if (lines) return lines;
+                    const message = match[1].trim();
+                    throw new Error(this.formatPrintArgument(message) ?? message);
+                },
+            },
+        ];
+    }
+
+    /**
+     * Evaluates the argument of a `print` call made of literals and the device values the simulator
+     * knows (firmware version, battery level, memory usage and MTU), joined with `..`.
+     * @returns The printed text, or undefined (no output) for anything else.
+     */
+    private formatPrintArgument(expr: string): string | undefined {
+        const values: Record<string, string> = {
+            "frame.FIRMWARE_VERSION": this.firmwareVersion,
+            "frame.battery_level()": String(this.batteryLevel),
+            "collectgarbage('count')": String(this.memoryUsageKb),
+            "frame.bluetooth.max_length()": String(this.maxLength),
+        };
+        let result = "";
+        for (const part of splitConcatenation(expr)) {
+            const value = values[part] ?? formatLuaLiteral(part);
+            if (value === undefined) return undefined;
+            result += value;
+        }
+        return result;
+    }
+
+    /**
+     * Returns the part of the eval output that `_evp(start, size)` returns: up to `size` bytes from `start`,
+     * ending on a UTF-8 character boundary, after the query tag.
+     */
+    private evalPart(start: number, size: number): string {
+        const { text, last } = replyPart(this.evalReply ?? new Uint8Array(0), start, size);
+        if (last) this.evalReply = undefined;
+        return "~q:" + text;
+    }
+
+    /**
+     * Responders for the helper installed by `FrameBle.call` and the calls made through it.
+     */
+    private rpcResponders(): SimulatedLuaResponder[] {
+        const part = (id: number, start: number, size: number) => {
+            const { text, last } = replyPart(this.rpcReplies.get(id) ?? new Uint8Array(0), start, size);
+            if (last) this.rpcReplies.delete(id);
+            return "~q:" + text;
+        };
+        return [
+            {
+                pattern: /^_rpc=\{r=\{\}\}\n/,
+                respond: () => {
+                    this.rpcInstalled = true;
+                },
+            },
+            {
+                pattern: /^print\(_rpc and _rpc\.call\((\d+),(\d+),([\w.]+)(?:,(.*))?\) or '~q:!'\)$/s,
+                respond: (match) => {
+                    if (!this.rpcInstalled) return "~q:!";
+                    const id = parseInt(match[1]);
+                    const fn = this.luaFunctions.get(match[3]) ?? this.replFunction(match[3]);
+                    let reply: string;
+                    try {
+                        if (!fn) throw new Error(`attempt to call a nil value (global '${match[3]}')`);
+                        // the helper writes non-ASCII text as \u escapes
+                        reply = "+" + JSON.stringify([fn(...parseLuaLiterals(match[4] ?? ""))])
+                            .replace(/[\u0080-\uffff]/g, c => "\\u" + c.charCodeAt(0).toString(16).padStart(4, "0"));
+                    } catch (error) {
+                        reply = "-" + (error instanceof Error ? error.message : String(error));
+                    }
+                    const bytes = new TextEncoder().encode(reply);
+                    this.rpcReplies.set(id, bytes);
+                    return `~q:${bytes.byteLength}:` + part(id, 1, parseInt(match[2])).substring(3);
+                },
+            },
+            {
+                pattern: /^print\(_rpc\.part\((\d+),(\d+),(\d+)\)\)$/,
+                respond: (match) => part(parseInt(match[1]), parseInt(match[2]), parseInt(match[3])),
+            },
+        ];
+    }
+
+    /**
+     * Responders for the commands and sprite renderer used by `FrameDisplay`.
+     */
+    private displayResponders(): SimulatedLuaResponder[] {
+        let renderer: ((data: Uint8Array) => void) | undefined;
+        return [
+            {
+                pattern: /^(?:frame\.display\.\w+\(.*?\);)+print\(0\)$/s,
+                respond: () => "0",
+            },
+            {
+                pattern: "if _spr then frame.bluetooth.receive_callback(_spr.receive);print(1) else print(0) end",
+                respond: () => {
+                    if (!renderer) return "0";
+                    this.setDataReceiver(renderer);
+                    return "1";
+                },
+            },
+            {
+                pattern: /^_spr=\{p=\{\},n=0,s=0\}\n/,
+                respond: () => {
+                    let parts: Uint8Array[] = [];
+                    let size = 0;
+                    let received = 0;
+                    renderer = (data) => {
+                        const code = data[0];
+                        if (received >= size) {
+                            size = (data[1] << 8) | data[2];
+                            received = 0;
+                            parts = [];
+                            data = data.subarray(3);
+                        } else {
+                            data = data.subarray(1);
+                        }
+                        parts.push(data.slice());
+                        received += data.byteLength;
+                        this.emitData(new Uint8Array([code, received >> 8, received & 0xFF]));
+                        if (received < size) return;
+
+                        const message = concatBytes(parts);
+                        const read16 = (offset: number) => (message[offset] << 8) | message[offset + 1];
+                        const paletteSize = message[10];
+                        const palette = Array.from({ length: paletteSize }, (_, i) => Array.from(message.subarray(12 + i * 3, 15 + i * 3)));
+                        this.bitmaps.push({
+                            x: read16(0), y: read16(2), width: read16(4), height: read16(6),
+                            bitsPerPixel: message[8], paletteOffset: message[9], palette,
+                            data: message.slice(12 + paletteSize * 3),
+                        });
+                    };
+                    this.setDataReceiver(renderer);
+                },
+            },
+        ];
+    }
+
+    /**
+     * Responders for the capture script installed by `FrameBle.captureImage`, which stream `cameraImage`.
+     */
+    private cameraResponders(): SimulatedLuaResponder[] {
+        return [
+            {
+                pattern: "print(_cam and 1 or 0)",
+                respond: () => this.cameraInstalled ? "1" : "0",
+            },
+            {
+                pattern: /^_cam=\{\}\n/,
+                respond: () => {
+                    this.cameraInstalled = true;
+                },
+            },
+            {
+                pattern: /^_cam\.capture\((\d+),'(\w+)',(true|false)\)$/,
+                respond: () => {
+                    if (!this.cameraInstalled) throw new Error("attempt to index a nil value (global '_cam')");
+                    const chunkSize = this.maxLength - 2;
+                    const image = this.cameraImage;
+                    for (let offset = 0; offset === 0 || offset < image.byteLength; offset += chunkSize) {
+                        const chunk = image.subarray(offset, offset + chunkSize);
+                        const last = offset + chunkSize >= image.byteLength;
+                        this.emitData(new Uint8Array([last ? 0x08 : 0x07, ...chunk]));
+                    }
+                },
+            },
+        ];
+    }
+
+    /**
+     * Responders for the streaming script installed by `FrameBle.startAudio`.
+     */
+    private audioResponders(): SimulatedLuaResponder[] {
+        return [
+            {
+                pattern: "print(_mic and 1 or 0)",
+                respond: () => this.audioInstalled ? "1" : "0",
+            },
+            {
+                pattern: /^_mic=\{\}\n/,
+                respond: () => {
+                    this.audioInstalled = true;
+                },
+            },
+            {
+                pattern: /^_mic\.run\((\d+),(8|16)\)$/,
+                respond: (match) => {
+                    if (!this.audioInstalled) throw new Error("attempt to index a nil value (global '_mic')");
+                    this.stopAudioStream();
+                    const sampleRate = parseInt(match[1]);
+                    const bytesPerSample = parseInt(match[2]) / 8;
+                    const samplesPerPacket = Math.floor((this.maxLength - 2) / 2);
+                    let sampleIndex = 0;
+                    // one packet per tick, at about the rate the microphone produces samples
+                    this.audioTimer = setInterval(() => {
+                        const packet = new Uint8Array(1 + samplesPerPacket * bytesPerSample);
+                        const view = new DataView(packet.buffer);
+                        packet[0] = 0x05;
+                        for (let i = 0; i < samplesPerPacket; i++, sampleIndex++) {
+                            const sample = Math.sin(2 * Math.PI * 440 * sampleIndex / sampleRate);
+                            if (bytesPerSample === 1) view.setInt8(1 + i, Math.round(sample * 64));
+                            else view.setInt16(1 + i * 2, Math.round(sample * 16384), true);
+                        }
+                        this.emitData(packet);
+                    }, Math.max(1, Math.round(samplesPerPacket * 1000 / sampleRate)));
+                },
+            },
+        ];
+    }
+
+    /**
+     * Responders for the event script installed by `FrameBle.onTap` and `FrameBle.streamImu`.
+     */
+    private eventResponders(): SimulatedLuaResponder[] {
+        return [
+            {
+                pattern: "print(_evt and 1 or 0)",
+                respond: () => this.eventsInstalled ? "1" : "0",
+            },
+            {
+                pattern: /^_evt=\{\}\n/,
+                respond: () => {
+                    this.eventsInstalled = true;
+                },
+            },
+            {
+                pattern: /^frame\.imu\.tap_callback\((_evt\.tap|nil)\);print\(1\)$/,
+                respond: (match) => {
+                    if (match[1] !== "nil" && !this.eventsInstalled) throw new Error("attempt to index a nil value (global '_evt')");
+                    this.tapArmed = match[1] !== "nil";
+                    return "1";
+                },
+            },
+            {
+                pattern: "_evt.imu()",
+                respond: () => {
+                    if (!this.eventsInstalled) throw new Error("attempt to index a nil value (global '_evt')");
+                    const { roll, pitch, heading, accelerometer: a, compass: c } = this.imu;
+                    const values = [roll * 10, pitch * 10, heading * 10, a.x, a.y, a.z, c.x, c.y, c.z];
+                    const packet = new Uint8Array(1 + values.length * 2);
+                    const view = new DataView(packet.buffer);
+                    packet[0] = 0x0B;
+                    values.forEach((value, index) => view.setInt16(1 + index * 2, Math.max(-32768, Math.min(32767, Math.round(value)))));
+                    this.emitData(packet);
+                },
+            },
+        ];
+    }
+
+    /**
+     * Responders for the power management methods of `FrameBle`.
+     */
+    private powerResponders(): SimulatedLuaResponder[] {
+        return [
+            {
+                pattern: /^frame\.stay_awake\((true|false)\);print\(1\)$/,
+                respond: (match) => {
+                    this.power.stayAwake = match[1] === "true";
+                    return "1";
+                },
+            },
+            {
+                pattern: /^frame\.display\.power_save\((true|false)\);frame\.camera\.(sleep|wake)\(\);print\(1\)$/,
+                respond: (match) => {
+                    this.power.displayPowerSave = match[1] === "true";
+                    this.power.cameraAsleep = match[2] === "sleep";
+                    return "1";
+                },
+            },
+            {
+                pattern: "frame.sleep()",
+                respond: () => {
+                    this.power.asleep = true;
+                    this.resetLuaState();
+                    setTimeout(() => {
+                        if (this.connected) this.handleDisconnect();
+                    }, this.latencyMs);
+                },
+            },
+        ];
+    }
+
+    /**
+     * Responders for the helper installed by `LuaRepl`.
+     */
+    private replResponders(): SimulatedLuaResponder[] {
+        return [
+            {
+                pattern: "print(_repl and 1 or 0)",
+                respond: () => this.replInstalled ? "1" : "0",
+            },
+            {
+                pattern: /^_repl=\{b=\{\}\}\n/,
+                respond: () => {
+                    this.replInstalled = true;
+                    this.replBuffer.length = 0;
+                },
+            },
+            {
+                pattern: /^if _repl then _repl\.run\((.+)\) else frame\.bluetooth\.send\(string\.char\(12,33\)\) end$/s,
+                respond: (match) => {
+                    if (!this.replInstalled) {
+                        this.emitData(new Uint8Array([0x0C, 0x21]));
+                        return;
+                    }
+                    this.runReplChunk(String(parseLuaLiterals(match[1])[0]));
+                },
+            },
+            {
+                pattern: "_repl.run()",
+                respond: () => {
+                    if (!this.replInstalled) throw new Error("attempt to index a nil value (global '_repl')");
+                    this.runReplChunk(this.replBuffer.splice(0).join(""));
+                },
+            },
+        ];
+    }
+
+    /**
+     * The functions of the `LuaRepl` helper, callable with `FrameBle.call` once it is installed.
+     */
+    private replFunction(name: string): ((...args: unknown[]) => unknown) | undefined {
+        if (!this.replInstalled) return undefined;
+        if (name === "_repl.add") {
+            return (piece) => {
+                this.replBuffer.push(String(piece));
+            };
+        }
+        if (name === "_repl.names") {
+            return (path) => {
+                let table: SimulatedGlobals | true | undefined = SIMULATED_GLOBALS;
+                for (const key of String(path).split(".").filter(key => key !== "")) {
+                    table = table === true ? undefined : table?.[key];
+                }
+                return typeof table === "object" ? Object.keys(table) : [];
+            };
+        }
+        return undefined;
+    }
+
+    /**
+     * Runs a chunk for the `LuaRepl` helper and reports the outcome the way it does.
+     */
+    private runReplChunk(src: string): void {
+        const report = (outcome: string) => this.emitData(new Uint8Array([0x0C, ...new TextEncoder().encode(outcome)]));
+        if (isIncompleteLua(src)) {
+            report("?");
+            return;
+        }
+        let lines: string[];
+        try {
+            lines = this.evaluate(src);
+        } catch (error) {
+            report(`-stdin:1: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        for (const line of lines) {
+            this.emitPrint(line);
+        }
+        report("+");
+    }
+
+    private stopAudioStream(): void {
+        if (this.audioTimer) clearInterval(this.audioTimer);
+        this.audioTimer = undefined;
+    }
+
+    /**
+     * Responders for the `frame.file` calls made by `readFile`, `listDirectory`,
+     * `deleteFile`, `renameFile`, `makeDirectory` and `fileExists`.
+     */
+    private fileSystemResponders(): SimulatedLuaResponder[] {
+        return [
+            {
+                pattern: /^local ok,f=pcall\(frame\.file\.open,'(.*)','r'\);if ok then _rf=f;print\(1\) else print\(tostring\(f\)\) end$/s,
+                respond: (match) => {
+                    const content = this.files.get(normalizePath(unescapeLuaString(match[1])));
+                    if (content === undefined) return `${unescapeLuaString(match[1])}: no such file`;
+                    this.readFile = { content, offset: 0 };
+                    return "1";
+                },
+            },
+            {
+                pattern: /^local d=_rf:read\((\d+)\);/,
+                respond: (match) => {
+                    if (!this.readFile) throw new Error("attempt to index a nil value (global '_rf')");
+                    const { content, offset } = this.readFile;
+                    const chunk = content.subarray(offset, offset + parseInt(match[1]));
+                    this.readFile.offset += chunk.byteLength;
+                    const packet = new Uint8Array(chunk.byteLength + 1);
+                    packet[0] = chunk.byteLength > 0 ? 1 : 0;
+                    packet.set(chunk, 1);
+                    this.emitData(packet);
+                },
+            },
+            {
+                pattern: "_rf:close();_rf=nil;print(1)",
+                respond: () => {
+                    this.readFile = undefined;
+                    return "1";
+                },
+            },
+            {
+                pattern: /^local ok,l=pcall\(frame\.file\.listdir,'(.*)'\);/s,
+                respond: (match) => {
+                    const dir = normalizePath(unescapeLuaString(match[1]));
+                    if (dir !== "" && !this.directories.has(dir)) return `${unescapeLuaString(match[1])}: no such directory`;
+                    const prefix = dir === "" ? "" : dir + "/";
+                    const isChild = (path: string) => path.startsWith(prefix) && !path.substring(prefix.length).includes("/");
+                    this.listing = [
+                        ...[...this.directories].filter(isChild).map(path => ({ name: path.substring(prefix.length), size: 0, type: 2 })),
+                        ...[...this.files].filter(([path]) => isChild(path)).map(([path, content]) => ({ name: path.substring(prefix.length), size: content.byteLength, type: 1 })),
+                    ];
+                    return String(this.listing.length);
+                },
+            },
+            {
+                pattern: /^local e=_ls\[(\d+)\];/,
+                respond: (match) => {
+                    const entry = this.listing?.[parseInt(match[1]) - 1];
+                    if (!entry) throw new Error("attempt to index a nil value (local 'e')");
+                    return `${entry.name}\t${entry.size}\t${entry.type}`;
+                },
+            },
+            {
+                pattern: "_ls=nil",
+                respond: () => {
+                    this.listing = undefined;
+                },
+            },
+            {
+                pattern: /^local ok,e=pcall\(frame\.file\.(remove|rename|mkdir),(.*)\);print\(ok and 1 or e\)$/s,
+                respond: (match) => {
+                    const args = [...match[2].matchAll(/'((?:[^'\\]|\\.)*)'/g)].map(arg => normalizePath(unescapeLuaString(arg[1])));
+                    switch (match[1]) {
+                        case "remove":
+                            if (this.files.delete(args[0]) || this.directories.delete(args[0])) return "1";
+                            return `${args[0]}: no such file`;
+                        case "rename": {
+                            const content = this.files.get(args[0]);
+                            if (content === undefined) return `${args[0]}: no such file`;
+                            this.files.delete(args[0]);
+                            this.files.set(args[1], content);
+                            return "1";
+                        }
+                        default:
+                            if (this.directories.has(args[0]) || this.files.has(args[0])) return `${args[0]}: already exists`;
+                            this.directories.add(args[0]);
+                            return "1";
+                    }
+                },
+            },
+            {
+                pattern: /^local t=\{\}\n.*\n_ub=\{t=t,n=0,f=frame\.file\.open\('(.*)','w'\)(?:,z=\{\},s=(\d+))?\}\n/s,
+                respond: (match) => {
+                    const upload = {
+                        path: normalizePath(unescapeLuaString(match[1])),
+                        chunks: [] as Uint8Array[],
+                        decompressedSize: match[2] === undefined ? undefined : parseInt(match[2]),
+                    };
+                    this.upload = upload;
+                    this.setDataReceiver((data) => {
+                        const seq = (data[0] << 8) | data[1];
+                        if (seq === upload.chunks.length) upload.chunks.push(data.slice(2));
+                        this.emitData(data.slice(0, 2));
+                    });
+                    return "1";
+                },
+            },
+            {
+                pattern: /^_ub\.verify\('(.*)'\)$/s,
+                respond: () => {
+                    if (!this.upload) throw new Error("attempt to index a nil value (global '_ub')");
+                    const { chunks, decompressedSize } = this.upload;
+                    const content = decompressedSize === undefined
+                        ? concatBytes(chunks)
+                        : decompressLz4Frame(concatBytes(chunks)).subarray(0, decompressedSize);
+                    this.files.set(this.upload.path, content);
+                    this.upload = undefined;
+                    this.setDataReceiver(undefined);
+                    return `${content.byteLength},${crc32(content)}`;
+                },
+            },
+            {
+                pattern: "_ub.f:close();frame.bluetooth.receive_callback(nil);_ub=nil",
+                respond: () => {
+                    if (this.upload) {
+                        // compressed chunks are only written once verified
+                        this.files.set(this.upload.path, this.upload.decompressedSize === undefined ? concatBytes(this.upload.chunks) : new Uint8Array(0));
+                    }
+                    this.upload = undefined;
+                    this.setDataReceiver(undefined);
+                },
+            },
+            {
+                pattern: /^local ok,f=pcall\(frame\.file\.open,'(.*)','r'\);if ok and f then f:close\(\);print\(1\) else print\(0\) end$/s,
+                respond: (match) => this.files.has(normalizePath(unescapeLuaString(match[1]))) ? "1" : "0",
+            },
+        ];
+    }
+
+    private notify(packet: Uint8Array): void {
+        setTimeout(() => {
+            if (!this.connected || this.shouldDrop()) return;
+            if (this.onNotification) {
+                this.onNotification(packet);
+            }
+        }, this.latencyMs);
+    }
+
+    private shouldDrop(): boolean {
+        return this.dropRate > 0 && this.random() < this.dropRate;
+    }
+
+    private delay(): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+}
+
+type SimulatedGlobals = { [name: string]: SimulatedGlobals | true };
+
+/**
+ * The globals whose names the simulated `LuaRepl` helper completes: tables as objects, anything else as `true`.
+ */
+const SIMULATED_GLOBALS: SimulatedGlobals = {
+    frame: {
+        FIRMWARE_VERSION: true, HARDWARE_VERSION: true, battery_level: true, sleep: true, stay_awake: true, update: true,
+        display: { text: true, bitmap: true, show: true, assign_color: true, assign_color_ycbcr: true, set_brightness: true, power_save: true },
+        bluetooth: { address: true, is_connected: true, max_length: true, receive_callback: true, send: true },
+        camera: { auto: true, capture: true, image_ready: true, read: true, sleep: true, wake: true },
+        microphone: { start: true, stop: true, read: true },
+        imu: { direction: true, raw: true, tap_callback: true },
+        file: { open: true, remove: true, rename: true, listdir: true, mkdir: true },
+        compression: { decompress: true, process_function: true },
+        time: { utc: true, zone: true, date: true },
+    },
+    collectgarbage: true, ipairs: true, load: true, math: { floor: true, max: true, min: true }, pairs: true, pcall: true,
+    print: true, require: true, string: { byte: true, char: true, format: true, sub: true }, table: { concat: true, insert: true },
+    tonumber: true, tostring: true, type: true,
+};
+
+/**
+ * Roughly decides whether a chunk needs more lines, as the `LuaRepl` helper does with Lua's own parser:
+ * after removing strings and comments, it counts block keywords and brackets that are still open.
+ */
+function isIncompleteLua(src: string): boolean {
+    const code = src
+        .replace(/--\[(=*)\[[\s\S]*?\]\1\]|--[^\n]*/g, " ")
+        .replace(/\[(=*)\[[\s\S]*?\]\1\]|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g, "s");
+    if (/\[=*\[|"|'/.test(code)) return true; // an unterminated string
+    let depth = 0;
+    for (const token of code.match(/[A-Za-z_]\w*|[(){}[\]]/g) ?? []) {
+        if (["function", "if", "do", "repeat", "(", "{", "["].includes(token)) depth++;
+        else if (["end", "until", ")", "}", "]"].includes(token)) depth--;
+    }
+    return depth > 0 || /(\band|\bor|\bnot|[-+*/%^#<>=,~.]|\.\.)\s*$/.test(code);
+}
+
+/**
+ * Splits a chunk into its statements at the newlines and semicolons between them.
+ * Lines that leave a block, bracket or string open are kept with the lines that close it.
+ */
+function splitStatements(chunk: string): string[] {
+    const statements: string[] = [];
+    let statement = "";
+    for (const piece of chunk.split(/([;\n])/)) {
+        statement += piece;
+        if ((piece === ";" || piece === "\n") && !isIncompleteLua(statement.slice(0, -1))) {
+            if (statement.slice(0, -1).trim() !== "") statements.push(statement.slice(0, -1).trim());
+            statement = "";
+        }
+    }
+    if (statement.trim() !== "") statements.push(statement.trim());
+    return statements;
+}
+
+/**
+ * A stand-in for a captured photo: JPEG start and end markers around some filler bytes.
+ */
+function placeholderJpeg(): Uint8Array {
+    const image = new Uint8Array(2048);
+    for (let i = 0; i < image.byteLength; i++) image[i] = i & 0x7F;
+    image.set([0xFF, 0xD8], 0);
+    image.set([0xFF, 0xD9], image.byteLength - 2);
+    return image;
+}
+
+/**
+ * Joins byte arrays into one.
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return result;
+}
+
+/**
+ * Names a chunk loaded from a string the way Lua does in error messages: its first line,
+ * truncated and followed by "..." if the chunk is long or has more lines.
+ */
+function luaChunkId(chunk: string): string {
+    const newline = chunk.indexOf("\n");
+    if (newline < 0 && chunk.length < 45) return chunk;
+    return chunk.substring(0, Math.min(newline < 0 ? chunk.length : newline, 45)) + "...";
+}
+
+/**
+ * Strips leading slashes so "/main.lua" and "main.lua" refer to the same simulated file.
+ */
+function normalizePath(path: string): string {
+    return path.replace(/^\/+/, "");
+}
+
+/**
+ * Reverses the escaping applied by `uploadFileFromString` to a double-quoted Lua string literal.
+ */
+function unescapeLuaString(str: string): string {
+    return str.replace(/\\(.)/gs, (_, c: string) => {
+        switch (c) {
+            case 'n': return "\n";
+            case 't': return "\t";
+            case 'r': return "\r";
+            default: return c;
+        }
+    });
+}
+
+/**
+ * Splits a Lua expression on the `..` operators outside string literals.
+ */
+function splitConcatenation(expr: string): string[] {
+    const parts: string[] = [];
+    let quote: string | undefined;
+    let start = 0;
+    for (let i = 0; i < expr.length; i++) {
+        const c = expr[i];
+        if (quote) {
+            if (c === "\\") i++;
+            else if (c === quote) quote = undefined;
+        } else if (c === "'" || c === '"') {
+            quote = c;
+        } else if (c === "." && expr[i + 1] === ".") {
+            parts.push(expr.substring(start, i).trim());
+            start = i + 2;
+            i++;
+        }
+    }
+    parts.push(expr.substring(start).trim());
+    return parts;
+}
+
+/**
+ * Returns up to `size` bytes of a reply from the 1-based `start`, ending on a UTF-8 character boundary
+ * as the device helpers do, and whether they are the last bytes of the reply.
+ */
+function replyPart(reply: Uint8Array, start: number, size: number): { text: string; last: boolean } {
+    let end = start - 1 + size;
+    while (end < reply.byteLength && (reply[end] & 0xC0) === 0x80) end--;
+    return { text: new TextDecoder().decode(reply.subarray(start - 1, end)), last: end >= reply.byteLength };
+}
+
+/**
+ * Formats a literal Lua expression the way `print` would, or returns undefined
+ * (no output) for anything that is not a literal.
+ */
+function formatLuaLiteral(expr: string): string | undefined {
+    if (expr === "nil" || expr === "true" || expr === "false") return expr;
+    if (/^-?\d+(\.\d+)?$/.test(expr)) return expr;
+    const quoted = expr.match(/^(['"])(.*)\1$/s);
+    if (quoted) return unescapeLuaString(quoted[2]);
+    return undefined;
+}
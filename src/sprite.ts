@@ -0,0 +1,232 @@
+/**
+ * The names of Frame's 16 palette entries, in palette order. Entry 0 (`VOID`) is black, which the display shows as transparent.
+ */
+export const FRAME_COLOR_NAMES = [
+    'VOID', 'WHITE', 'GREY', 'RED', 'PINK', 'DARKBROWN', 'BROWN', 'ORANGE',
+    'YELLOW', 'DARKGREEN', 'GREEN', 'LIGHTGREEN', 'NIGHTBLUE', 'SEABLUE', 'SKYBLUE', 'CLOUDBLUE',
+] as const;
+
+/**
+ * The name of a Frame palette entry.
+ */
+export type FrameColorName = typeof FRAME_COLOR_NAMES[number];
+
+/**
+ * A colour as red, green and blue components from 0 to 255.
+ */
+export type RgbColor = [number, number, number];
+
+/**
+ * An image as 8-bit RGBA pixels in rows from the top left, like the browser's `ImageData`.
+ */
+export interface RgbaImage {
+    width: number;
+    height: number;
+    /** 4 bytes (red, green, blue, alpha) per pixel. */
+    data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * An image in Frame's indexed-colour bitmap format, as produced by `encodeSprite`.
+ */
+export interface FrameSprite {
+    /** The width in pixels, padded so each row fills whole bytes. */
+    width: number;
+    height: number;
+    bitsPerPixel: 1 | 2 | 4;
+    /**
+     * The colours of pixel values 1 and up. Pixel value 0 is transparent (it shows the `VOID` palette entry).
+     */
+    palette: RgbColor[];
+    /** The pixel values, packed most significant bits first, row after row. */
+    pixels: Uint8Array;
+}
+
+/**
+ * Converts an RGBA image into Frame's indexed-colour sprite format.
+ *
+ * Pixels with an alpha below 128 become transparent. If the opaque pixels have more distinct colours than
+ * the bit depth allows (1, 3 or 15 besides transparent), the palette is chosen by median cut and each pixel
+ * is mapped to the nearest palette colour.
+ * @param image The image to convert.
+ * @param options Optional configuration for the conversion.
+ * @param options.bitsPerPixel The bit depth of the sprite: 1, 2 or 4. Defaults to 4.
+ * @returns The sprite.
+ * @throws Error if the bit depth is not supported or the image data is too short for its size.
+ */
+export function encodeSprite(image: RgbaImage, options: { bitsPerPixel?: 1 | 2 | 4 } = {}): FrameSprite {
+    const { bitsPerPixel = 4 } = options;
+    if (bitsPerPixel !== 1 && bitsPerPixel !== 2 && bitsPerPixel !== 4) {
+        throw new Error(`Bits per pixel must be 1, 2 or 4, got ${bitsPerPixel}`);
+    }
+    const { width, height, data } = image;
+    if (data.length < width * height * 4) {
+        throw new Error(`Image data (${data.length} bytes) is too short for a ${width}x${height} RGBA image.`);
+    }
+
+    const counts = new Map<number, number>();
+    for (let i = 0; i < width * height * 4; i += 4) {
+        if (data[i + 3] < 128) continue;
+        const rgb = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+        counts.set(rgb, (counts.get(rgb) ?? 0) + 1);
+    }
+    const palette = medianCut(counts, (1 << bitsPerPixel) - 1);
+
+    // Maps each distinct colour to its pixel value, 1-based since 0 is transparent
+    const values = new Map<number, number>();
+    for (const rgb of counts.keys()) {
+        values.set(rgb, nearestColor(palette, rgb) + 1);
+    }
+
+    const pixelsPerByte = 8 / bitsPerPixel;
+    const paddedWidth = Math.ceil(width / pixelsPerByte) * pixelsPerByte;
+    const pixels = new Uint8Array(paddedWidth * height / pixelsPerByte);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            if (data[i + 3] < 128) continue;
+            const value = values.get((data[i] << 16) | (data[i + 1] << 8) | data[i + 2])!;
+            const bit = (y * paddedWidth + x) * bitsPerPixel;
+            pixels[bit >> 3] |= value << (8 - bitsPerPixel - (bit & 7));
+        }
+    }
+    return { width: paddedWidth, height, bitsPerPixel, palette, pixels };
+}
+
+/**
+ * Chooses up to `maxColors` colours representing the weighted colours in `counts`,
+ * by repeatedly splitting the box of colours with the widest channel range at its median.
+ */
+function medianCut(counts: Map<number, number>, maxColors: number): RgbColor[] {
+    const colors = [...counts.keys()].map(rgb => [rgb >> 16, (rgb >> 8) & 0xFF, rgb & 0xFF, counts.get(rgb)!]);
+    if (colors.length <= maxColors) {
+        return colors.map(([r, g, b]) => [r, g, b]);
+    }
+
+    const widestChannel = (box: number[][]) => {
+        let best = { channel: 0, range: -1 };
+        for (let channel = 0; channel < 3; channel++) {
+            let min = 255, max = 0;
+            for (const color of box) {
+                min = Math.min(min, color[channel]);
+                max = Math.max(max, color[channel]);
+            }
+            const range = max - min;
+            if (range > best.range) best = { channel, range };
+        }
+        return best;
+    };
+
+    const boxes = [colors];
+    while (boxes.length < maxColors) {
+        let splitIndex = -1;
+        let split = { channel: 0, range: 0 };
+        boxes.forEach((box, index) => {
+            const widest = widestChannel(box);
+            if (box.length > 1 && widest.range > split.range) {
+                splitIndex = index;
+                split = widest;
+            }
+        });
+        if (splitIndex < 0) break;
+
+        const box = boxes[splitIndex].sort((a, b) => a[split.channel] - b[split.channel]);
+        const total = box.reduce((sum, color) => sum + color[3], 0);
+        let median = 0;
+        for (let seen = 0; median < box.length - 1 && seen + box[median][3] <= total / 2; median++) {
+            seen += box[median][3];
+        }
+        median = Math.max(median, 1);
+        boxes.splice(splitIndex, 1, box.slice(0, median), box.slice(median));
+    }
+
+    return boxes.map(box => {
+        const total = box.reduce((sum, color) => sum + color[3], 0);
+        return [0, 1, 2].map(channel =>
+            Math.round(box.reduce((sum, color) => sum + color[channel] * color[3], 0) / total)) as RgbColor;
+    });
+}
+
+function nearestColor(palette: RgbColor[], rgb: number): number {
+    const r = rgb >> 16, g = (rgb >> 8) & 0xFF, b = rgb & 0xFF;
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    palette.forEach(([pr, pg, pb], index) => {
+        const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+        if (distance < nearestDistance) {
+            nearest = index;
+            nearestDistance = distance;
+        }
+    });
+    return nearest;
+}
+
+/**
+ * Encodes a horizontal band of a sprite as a message for `SPRITE_RENDERER_LUA`: x, y, width and height as
+ * 16-bit big-endian values, then bits per pixel, palette offset, palette size and flags (bit 0: show
+ * afterwards) as one byte each, the palette as red, green and blue bytes, and the band's packed pixels.
+ * @param sprite The sprite to draw.
+ * @param firstRow The first row of the band.
+ * @param rowCount The number of rows in the band.
+ * @param options Where to draw the band, the palette offset and whether to show the display afterwards.
+ */
+export function encodeSpriteBand(
+    sprite: FrameSprite,
+    firstRow: number,
+    rowCount: number,
+    options: { x: number; y: number; paletteOffset: number; show: boolean }
+): Uint8Array {
+    const rowBytes = sprite.width * sprite.bitsPerPixel / 8;
+    const header = [
+        options.x >> 8, options.x & 0xFF,
+        (options.y + firstRow) >> 8, (options.y + firstRow) & 0xFF,
+        sprite.width >> 8, sprite.width & 0xFF,
+        rowCount >> 8, rowCount & 0xFF,
+        sprite.bitsPerPixel, options.paletteOffset, sprite.palette.length, options.show ? 1 : 0,
+        ...sprite.palette.flat(),
+    ];
+    const message = new Uint8Array(header.length + rowCount * rowBytes);
+    message.set(header, 0);
+    message.set(sprite.pixels.subarray(firstRow * rowBytes, (firstRow + rowCount) * rowBytes), header.length);
+    return message;
+}
+
+/**
+ * Lua installed on the device by `FrameDisplay` to draw sprites sent as messages (see `encodeSpriteBand`).
+ * It sets `_spr.receive` as the data receive callback, reassembling each message with the `sendMessage` framing and
+ * acknowledging packets with the number of bytes received so far, like `MESSAGE_RECEIVER_LUA`.
+ */
+export const SPRITE_RENDERER_LUA = `_spr={p={},n=0,s=0}
+local names={${FRAME_COLOR_NAMES.map(name => `'${name}'`).join(",")}}
+function _spr.draw(m)
+    local x,y,w,h,bpp,off,nc,flags,pos=string.unpack('>I2I2I2I2BBBB',m)
+    for i=1,nc do
+        local r,g,b=string.byte(m,pos,pos+2)
+        frame.display.assign_color(names[off+i+1],r,g,b)
+        pos=pos+3
+    end
+    frame.display.bitmap(x,y,w,1<<bpp,off,string.sub(m,pos))
+    if flags&1==1 then frame.display.show() end
+end
+function _spr.receive(d)
+    local p=_spr
+    local code=string.byte(d,1)
+    if p.n>=p.s then
+        p.s=(string.byte(d,2)<<8)|string.byte(d,3)
+        p.n=0
+        p.p={}
+        d=string.sub(d,4)
+    else
+        d=string.sub(d,2)
+    end
+    p.p[#p.p+1]=d
+    p.n=p.n+#d
+    frame.bluetooth.send(string.char(code,p.n>>8,p.n&0xFF))
+    if p.n>=p.s then
+        local m=table.concat(p.p)
+        p.p={}
+        _spr.draw(m)
+    end
+end
+frame.bluetooth.receive_callback(_spr.receive)
+`;
@@ -0,0 +1,115 @@
+/**
+ * Information about the connected Frame device, as returned by `FrameBle.getDeviceInfo`.
+ */
+export interface FrameDeviceInfo {
+    /** The name (or id) of the device, as reported by the transport. */
+    name?: string;
+    /** The firmware version, `frame.FIRMWARE_VERSION`. */
+    firmwareVersion: string;
+    /** The maximum packet size in bytes, `frame.bluetooth.max_length()`. */
+    mtu: number;
+}
+
+/**
+ * A reading taken by the telemetry monitor.
+ */
+export interface FrameTelemetry {
+    /** The battery level in percent, `frame.battery_level()`. */
+    batteryLevel: number;
+    /** The memory used by Lua in kilobytes, `collectgarbage('count')`. */
+    memoryUsageKb: number;
+    /** When the reading was taken, in milliseconds since the epoch. */
+    time: number;
+}
+
+/**
+ * Options for `FrameBle.startTelemetryMonitor`.
+ */
+export interface TelemetryMonitorOptions {
+    /** The time in milliseconds between readings. Defaults to 60000ms. */
+    intervalMs?: number;
+    /** The battery level (percent) at or below which `batteryLow` is emitted. Defaults to 20. */
+    lowBatteryLevel?: number;
+    /** The growth in kilobytes over the lowest memory usage seen at which `memoryGrowth` is emitted. Defaults to 16. */
+    memoryGrowthKb?: number;
+}
+
+/**
+ * Polls the device at an interval and detects low battery and memory growth.
+ * Polls never overlap: the next one is scheduled when the previous one has finished.
+ */
+export class TelemetryMonitor {
+    private timeoutId?: NodeJS.Timeout;
+    private running = false;
+    private batteryLowReported = false;
+    private memoryBaseline?: number;
+
+    /**
+     * Creates a telemetry monitor.
+     * @param read Takes a reading, or returns undefined if the device can't be polled right now.
+     * @param report Callbacks for each reading and for the conditions detected.
+     * @param options The polling interval and thresholds.
+     */
+    constructor(
+        private readonly read: () => Promise<FrameTelemetry | undefined>,
+        private readonly report: {
+            sample: (telemetry: FrameTelemetry) => void;
+            batteryLow: (level: number) => void;
+            memoryGrowth: (usageKb: number, baselineKb: number) => void;
+            error: (error: unknown) => void;
+        },
+        private readonly options: Required<TelemetryMonitorOptions>,
+    ) {}
+
+    public start(): void {
+        if (this.running) return;
+        this.running = true;
+        this.schedule(0);
+    }
+
+    public stop(): void {
+        this.running = false;
+        if (this.timeoutId) clearTimeout(this.timeoutId);
+        this.timeoutId = undefined;
+    }
+
+    public isRunning(): boolean {
+        return this.running;
+    }
+
+    private schedule(delay: number) {
+        this.timeoutId = setTimeout(async () => {
+            this.timeoutId = undefined;
+            try {
+                const telemetry = await this.read();
+                if (telemetry && this.running) this.process(telemetry);
+            } catch (error) {
+                if (this.running) this.report.error(error);
+            }
+            if (this.running) this.schedule(this.options.intervalMs);
+        }, delay);
+    }
+
+    private process(telemetry: FrameTelemetry) {
+        this.report.sample(telemetry);
+
+        // Report a low battery once, until it has been charged above the threshold again
+        if (telemetry.batteryLevel <= this.options.lowBatteryLevel) {
+            if (!this.batteryLowReported) {
+                this.batteryLowReported = true;
+                this.report.batteryLow(telemetry.batteryLevel);
+            }
+        } else {
+            this.batteryLowReported = false;
+        }
+
+        // Measure growth from the lowest usage seen since the last report, so garbage collection cycles aren't reported
+        const baseline = Math.min(this.memoryBaseline ?? telemetry.memoryUsageKb, telemetry.memoryUsageKb);
+        if (telemetry.memoryUsageKb - baseline >= this.options.memoryGrowthKb) {
+            this.report.memoryGrowth(telemetry.memoryUsageKb, baseline);
+            this.memoryBaseline = telemetry.memoryUsageKb;
+        } else {
+            this.memoryBaseline = baseline;
+        }
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * A single packet captured by a `TraceRecorder`.
+ */
+export interface TracePacket {
+    /** Milliseconds since the trace started. */
+    time: number;
+    /** 'tx' for packets sent to the device, 'rx' for packets received from it. */
+    direction: 'tx' | 'rx';
+    /** The raw packet bytes as a hex string. */
+    data: string;
+}
+
+/**
+ * A packet-level trace of a session with a Frame device, as exported by `TraceRecorder.toJSON`.
+ */
+export interface FrameTrace {
+    /** The trace format version. */
+    version: 1;
+    /** When the trace started, as an ISO 8601 timestamp. */
+    startedAt: string;
+    /** The packets sent and received, in order. */
+    packets: TracePacket[];
+}
+
+/**
+ * Records every packet sent to and received from a Frame device, with timestamps and direction.
+ * Attach one with `FrameBle.setTraceRecorder`; the exported trace can be replayed with a `ReplayTransport`.
+ */
+export class TraceRecorder {
+    private readonly packets: TracePacket[] = [];
+    private startedAt = new Date();
+    private startTime = Date.now();
+
+    /**
+     * Records a packet.
+     * @param direction 'tx' for packets sent to the device, 'rx' for packets received from it.
+     * @param data The raw packet bytes.
+     */
+    public record(direction: 'tx' | 'rx', data: Uint8Array): void {
+        this.packets.push({ time: Date.now() - this.startTime, direction, data: toHex(data) });
+    }
+
+    /**
+     * Discards the packets recorded so far and restarts the trace clock.
+     */
+    public clear(): void {
+        this.packets.length = 0;
+        this.startedAt = new Date();
+        this.startTime = Date.now();
+    }
+
+    /**
+     * @returns The number of packets recorded so far.
+     */
+    public get size(): number {
+        return this.packets.length;
+    }
+
+    /**
+     * Exports the trace as a plain object, so `JSON.stringify(recorder)` produces the trace JSON.
+     * @returns A copy of the trace.
+     */
+    public toJSON(): FrameTrace {
+        return { version: 1, startedAt: this.startedAt.toISOString(), packets: this.packets.map(packet => ({ ...packet })) };
+    }
+}
+
+/**
+ * Formats bytes as a lowercase hex string without separators.
+ */
+export function toHex(data: Uint8Array): string {
+    return Array.from(data).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Parses a hex string (as produced by `toHex`) into bytes.
+ */
+export function fromHex(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
@@ -0,0 +1,108 @@
+import { FrameLogger } from './logger';
+
+/**
+ * Options used when selecting a device to connect to.
+ */
+export interface DeviceSelectionOptions {
+    /** The exact name of the device to connect to. */
+    name?: string;
+    /** The prefix of the device name to filter by. */
+    namePrefix?: string;
+}
+
+/**
+ * The link that carries raw packets between `FrameBle` and a Frame device.
+ *
+ * `FrameBle` takes care of the Frame protocol (Lua strings, the 0x01 data prefix,
+ * break/reset signals, MTU handshake); a transport only moves bytes.
+ * `WebBluetoothTransport` is the default implementation, and `SimulatedFrameTransport`
+ * emulates a device in memory so code built on `FrameBle` can be tested without hardware.
+ */
+export interface FrameTransport {
+    /**
+     * Selects the device to talk to, e.g. by prompting the user.
+     * Only called by `FrameBle.connect` when `hasDevice()` is false.
+     * @param options Optional filters for device selection.
+     */
+    requestDevice(options: DeviceSelectionOptions): Promise<void>;
+
+    /**
+     * Selects the most recently used device again without prompting, e.g. to reconnect after the link was lost.
+     * @returns True if a device is selected afterwards, false if no device can be restored.
+     */
+    reselectDevice(): Promise<boolean>;
+
+    /**
+     * @returns True if a device has been selected (whether or not the link is currently open).
+     */
+    hasDevice(): boolean;
+
+    /**
+     * @returns The name of the selected device, falling back to its id, or undefined if none is selected.
+     */
+    getDeviceName(): string | undefined;
+
+    /**
+     * Opens the link to the selected device and starts delivering notifications.
+     * Implementations clean up any partially opened state before rejecting, and should reject with a
+     * `FrameConnectionError` subclass where the cause is known (e.g. `FrameGattError`).
+     * @param onDiscovering Called once the link is up, when the transport starts looking up the Frame service
+     * and characteristics. Transports without such a step may call it right away or not at all.
+     */
+    open(onDiscovering?: () => void): Promise<void>;
+
+    /**
+     * Closes the link to the selected device. The disconnect handler is called
+     * once the link has been torn down.
+     */
+    close(): Promise<void>;
+
+    /**
+     * Drops the selected device (and any remembered device) so the next `requestDevice` starts from scratch.
+     */
+    forget(): void;
+
+    /**
+     * @returns True if the link to the device is currently open.
+     */
+    isConnected(): boolean;
+
+    /**
+     * Writes a single packet to the device.
+     * @param packet The raw bytes to send, already sized to fit in one BLE packet.
+     */
+    write(packet: Uint8Array): Promise<void>;
+
+    /**
+     * Optionally writes a single packet without waiting for the device to acknowledge it at the link layer,
+     * so several packets can be in flight at once. `FrameBle` uses `write` instead where this is missing.
+     * @param packet The raw bytes to send, already sized to fit in one BLE packet.
+     */
+    writeWithoutResponse?(packet: Uint8Array): Promise<void>;
+
+    /**
+     * Sets the handler called with the raw bytes of each packet received from the device.
+     * @param handler The notification handler, or undefined to remove it.
+     */
+    setNotificationHandler(handler: ((data: Uint8Array) => void) | undefined): void;
+
+    /**
+     * Sets the handler called when the link to the device is lost or closed.
+     * @param handler The disconnect handler, or undefined to remove it.
+     */
+    setDisconnectHandler(handler: (() => void) | undefined): void;
+
+    /**
+     * Decides whether an error thrown by `open()` is transient and worth another attempt,
+     * typically a `FrameGattError` marked `retryable`.
+     * @param error The error thrown by `open()`.
+     * @returns True if the connection attempt should be retried.
+     */
+    isRetryableError(error: unknown): boolean;
+
+    /**
+     * Optionally receives the logger passed to `FrameBle`, so the transport's diagnostics go to the same place.
+     * @param logger The logger to use.
+     */
+    setLogger?(logger: FrameLogger): void;
+}
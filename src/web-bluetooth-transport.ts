@@ -0,0 +1,280 @@
+import { DeviceSelectionOptions, FrameTransport } from './transport';
+import { FrameCancelledError, FrameConnectionError, FrameGattError, FrameServiceNotFoundError } from './errors';
+import { FrameLogger, createConsoleLogger } from './logger';
+
+/**
+ * Transport that talks to a Frame device over Bluetooth LE using WebBluetooth.
+ * This is the transport `FrameBle` uses unless another one is supplied.
+ */
+export class WebBluetoothTransport implements FrameTransport {
+    private device?: BluetoothDevice;
+    // The most recently selected device, kept after a disconnect so it can be reconnected without prompting
+    private lastDevice?: BluetoothDevice;
+    private server?: BluetoothRemoteGATTServer;
+    private txCharacteristic?: BluetoothRemoteGATTCharacteristic;
+    private rxCharacteristic?: BluetoothRemoteGATTCharacteristic;
+
+    private readonly SERVICE_UUID = "7a230001-5475-a6a4-654c-8431f6ad49c4";
+    private readonly TX_CHARACTERISTIC_UUID = "7a230002-5475-a6a4-654c-8431f6ad49c4";
+    private readonly RX_CHARACTERISTIC_UUID = "7a230003-5475-a6a4-654c-8431f6ad49c4";
+
+    private onNotification?: (data: Uint8Array) => void;
+    private onDisconnect?: () => void;
+    private logger: FrameLogger = createConsoleLogger();
+
+    public setLogger(logger: FrameLogger): void {
+        this.logger = logger;
+    }
+
+    public setNotificationHandler(handler: ((data: Uint8Array) => void) | undefined): void {
+        this.onNotification = handler;
+    }
+
+    public setDisconnectHandler(handler: (() => void) | undefined): void {
+        this.onDisconnect = handler;
+    }
+
+    private handleDisconnect = () => {
+        this.device = undefined;
+        this.server = undefined;
+        this.txCharacteristic = undefined;
+        this.rxCharacteristic = undefined;
+        if (this.onDisconnect) {
+            this.onDisconnect();
+        }
+    }
+
+    private notificationHandler = (event: Event) => {
+        const characteristic = event.target as BluetoothRemoteGATTCharacteristic;
+        const value = characteristic.value; // This is a DataView
+        if (!value || value.buffer.byteLength === 0) return;
+
+        // Create a Uint8Array view of the packet.
+        // This avoids copying the underlying ArrayBuffer.
+        if (this.onNotification) {
+            this.onNotification(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        }
+    }
+
+    /**
+     * Prompts the user to select a Frame device through the browser's device chooser.
+     * @param options Optional name or name prefix filter for the chooser.
+     * @throws FrameCancelledError if the user closes the chooser without picking a device.
+     * @throws FrameConnectionError if Web Bluetooth is not available or the request fails otherwise.
+     */
+    public async requestDevice(options: DeviceSelectionOptions): Promise<void> {
+        const { name, namePrefix } = options;
+
+        if (typeof navigator === "undefined" || !navigator.bluetooth) {
+            throw new FrameConnectionError("Web Bluetooth API not available.");
+        }
+
+        const baseFilter: BluetoothLEScanFilter = name
+            ? { services: [this.SERVICE_UUID], name: name }
+            : namePrefix
+                ? { services: [this.SERVICE_UUID], namePrefix: namePrefix }
+                : { services: [this.SERVICE_UUID] };
+
+        const deviceOptions: RequestDeviceOptions = {
+            filters: [baseFilter],
+            optionalServices: [this.SERVICE_UUID],
+        };
+        try {
+            this.logger.info("Requesting Bluetooth device from user...");
+            this.device = await navigator.bluetooth.requestDevice(deviceOptions);
+            if (!this.device) {
+                // This case should ideally be caught by requestDevice throwing an error if user cancels.
+                throw new FrameCancelledError("No device selected by the user.");
+            }
+            this.logger.info(`Device selected: ${this.device.name || this.device.id}`);
+        } catch (error) {
+            this.device = undefined; // Ensure device is reset
+            if (error instanceof FrameConnectionError) throw error;
+            if (error instanceof Error && error.name === 'NotFoundError') {
+                // The chooser reports cancellation as a NotFoundError
+                this.logger.info("Bluetooth device request cancelled.");
+                throw new FrameCancelledError(error.message, error);
+            }
+            this.logger.error("Bluetooth device request failed:", error);
+            throw new FrameConnectionError(error instanceof Error ? error.message : String(error), error);
+        }
+
+        this.selectDevice(this.device);
+    }
+
+    /**
+     * Selects the most recently used device again without prompting.
+     * Where `navigator.bluetooth.getDevices()` is supported, the permitted device with the same id
+     * is preferred over the remembered `BluetoothDevice` object.
+     */
+    public async reselectDevice(): Promise<boolean> {
+        if (this.device) return true;
+        if (!this.lastDevice) return false;
+
+        let device = this.lastDevice;
+        if (typeof navigator !== "undefined" && navigator.bluetooth?.getDevices) {
+            try {
+                const permittedDevices = await navigator.bluetooth.getDevices();
+                device = permittedDevices.find(permitted => permitted.id === this.lastDevice?.id) ?? device;
+            } catch (error) {
+                this.logger.warn("Could not get permitted Bluetooth devices, reusing remembered device:", error);
+            }
+        }
+        this.logger.info(`Reselecting device: ${device.name || device.id}`);
+        this.selectDevice(device);
+        return true;
+    }
+
+    private selectDevice(device: BluetoothDevice) {
+        this.device = device;
+        this.lastDevice = device;
+        // Ensure the 'gattserverdisconnected' listener is correctly managed for the selected device.
+        // Remove first to prevent duplicates if the same device is selected again.
+        device.removeEventListener('gattserverdisconnected', this.handleDisconnect);
+        device.addEventListener('gattserverdisconnected', this.handleDisconnect);
+    }
+
+    public hasDevice(): boolean {
+        return !!this.device;
+    }
+
+    public getDeviceName(): string | undefined {
+        return this.device ? (this.device.name || this.device.id) : undefined;
+    }
+
+    /**
+     * Connects to the GATT server of the selected device, obtains the TX/RX characteristics
+     * and starts notifications on the RX characteristic.
+     * @param onDiscovering Called once the GATT server is connected, before the service is looked up.
+     * @throws FrameServiceNotFoundError if the device doesn't offer the Frame service or its characteristics.
+     * @throws FrameGattError if a GATT operation fails; `retryable` is set for `NetworkError`s.
+     * @throws FrameConnectionError if no device is selected.
+     */
+    public async open(onDiscovering?: () => void): Promise<void> {
+        if (!this.device || !this.device.gatt) {
+            // this.device should be set by requestDevice() before calling this.
+            // this.device.gatt might be null if the device object exists but was never connected.
+            throw new FrameConnectionError("Bluetooth device or GATT interface not available for connection attempt.");
+        }
+
+        // Reset characteristics and server from any previous failed attempt within a retry loop.
+        this.txCharacteristic = undefined;
+        this.rxCharacteristic = undefined;
+        this.server = undefined;
+
+        try {
+            this.logger.debug(`Attempting to connect to GATT server on device: ${this.device.name || this.device.id}...`);
+            this.server = await this.device.gatt.connect();
+            this.logger.debug("GATT server connected.");
+            onDiscovering?.();
+
+            this.logger.debug("Getting primary service...");
+            const service = await this.server.getPrimaryService(this.SERVICE_UUID);
+            this.logger.debug("Primary service obtained.");
+
+            this.logger.debug("Getting TX characteristic...");
+            this.txCharacteristic = await service.getCharacteristic(this.TX_CHARACTERISTIC_UUID);
+            this.logger.debug("TX characteristic obtained.");
+
+            this.logger.debug("Getting RX characteristic...");
+            this.rxCharacteristic = await service.getCharacteristic(this.RX_CHARACTERISTIC_UUID);
+            this.logger.debug("RX characteristic obtained.");
+
+            this.logger.debug("Starting notifications on RX characteristic...");
+            await this.rxCharacteristic.startNotifications();
+            this.rxCharacteristic.addEventListener('characteristicvaluechanged', this.notificationHandler);
+            this.logger.debug("Notifications started.");
+        } catch (error) {
+            this.logger.error("Error during connection attempt:", error);
+            // Cleanup for this specific failed attempt
+            if (this.rxCharacteristic) {
+                try {
+                    // Only try to stop notifications if gatt was connected and rxCharacteristic was obtained
+                    if (this.device?.gatt?.connected) {
+                        await this.rxCharacteristic.stopNotifications();
+                    }
+                } catch (stopNotificationError) {
+                    // console.warn("Could not stop notifications during attempt cleanup:", stopNotificationError);
+                }
+                this.rxCharacteristic.removeEventListener('characteristicvaluechanged', this.notificationHandler);
+                this.rxCharacteristic = undefined;
+            }
+            this.txCharacteristic = undefined;
+            if (this.device?.gatt?.connected) {
+                this.device.gatt.disconnect(); // Disconnect from GATT for this attempt
+            }
+            this.server = undefined;
+            throw WebBluetoothTransport.classifyError(error); // Rethrow to be handled by the caller's retry loop
+        }
+    }
+
+    /**
+     * Disconnects from the GATT server. The 'gattserverdisconnected' event then triggers
+     * the disconnect handler; if the GATT server was not connected, the handler is called immediately instead.
+     */
+    public async close(): Promise<void> {
+        if (this.device && this.device.gatt?.connected) {
+            this.device.gatt.disconnect();
+        } else {
+            this.handleDisconnect(); // handleDisconnect is typically called by the 'gattserverdisconnected' event. Calling it here ensures immediate state cleanup if the event is delayed or not fired.
+        }
+    }
+
+    /**
+     * Removes the disconnect listener from the selected device and clears it,
+     * so a subsequent `requestDevice` re-prompts the user.
+     */
+    public forget(): void {
+        if (this.device) {
+            this.device.removeEventListener('gattserverdisconnected', this.handleDisconnect);
+            if (this.device.gatt?.connected) {
+                this.device.gatt.disconnect();
+            }
+        }
+        this.server = undefined;
+        this.txCharacteristic = undefined;
+        this.rxCharacteristic = undefined;
+        this.device = undefined;
+        this.lastDevice = undefined;
+    }
+
+    public isConnected(): boolean {
+        return !!(this.device && this.device.gatt && this.device.gatt.connected);
+    }
+
+    public async write(packet: Uint8Array): Promise<void> {
+        if (!this.txCharacteristic) {
+            throw new Error("Not connected or TX characteristic not available.");
+        }
+        await this.txCharacteristic.writeValueWithResponse(packet);
+    }
+
+    public async writeWithoutResponse(packet: Uint8Array): Promise<void> {
+        if (!this.txCharacteristic) {
+            throw new Error("Not connected or TX characteristic not available.");
+        }
+        await this.txCharacteristic.writeValueWithoutResponse(packet);
+    }
+
+    /**
+     * Treats the `FrameGattError`s marked retryable by `open()` as retryable.
+     */
+    public isRetryableError(error: unknown): boolean {
+        return error instanceof FrameGattError && error.retryable;
+    }
+
+    /**
+     * Maps an error thrown during GATT setup to a `FrameConnectionError`, using the `DOMException` name.
+     * `NetworkError`s (failed connection attempts, GATT operations failing for unknown reasons, a GATT server
+     * disconnected mid-setup) are intermittent while a connection is being established, so they are retryable.
+     */
+    private static classifyError(error: unknown): Error {
+        if (error instanceof FrameConnectionError) return error;
+        const message = error instanceof Error ? error.message : String(error);
+        const name = error instanceof Error ? error.name : undefined;
+        if (name === 'NotFoundError') {
+            return new FrameServiceNotFoundError(`Frame service not found on the device: ${message}`, error);
+        }
+        return new FrameGattError(message, name === 'NetworkError', error);
+    }
+}
@@ -0,0 +1,37 @@
+// The parts of fengari, a Lua 5.3 interpreter in JavaScript, used by the tests.
+declare module 'fengari' {
+    type LuaState = unknown;
+    type LuaString = Uint8Array;
+
+    export function to_luastring(str: string): LuaString;
+
+    export const lua: {
+        LUA_OK: number;
+        LUA_REGISTRYINDEX: number;
+        lua_pcall(L: LuaState, nargs: number, nresults: number, msgh: number): number;
+        lua_pop(L: LuaState, n: number): void;
+        lua_pushvalue(L: LuaState, index: number): void;
+        lua_pushnil(L: LuaState): void;
+        lua_pushboolean(L: LuaState, b: boolean): void;
+        lua_pushinteger(L: LuaState, n: number): void;
+        lua_pushstring(L: LuaState, s: LuaString): void;
+        lua_pushlstring(L: LuaState, s: LuaString, len: number): void;
+        lua_pushjsfunction(L: LuaState, fn: (L: LuaState) => number): void;
+        lua_newtable(L: LuaState): void;
+        lua_setfield(L: LuaState, index: number, key: LuaString): void;
+        lua_rawgeti(L: LuaState, index: number, n: number): void;
+        lua_isnil(L: LuaState, index: number): boolean;
+        lua_tolstring(L: LuaState, index: number): LuaString;
+        lua_tojsstring(L: LuaState, index: number): string;
+    };
+
+    export const lauxlib: {
+        luaL_newstate(): LuaState;
+        luaL_loadbuffer(L: LuaState, buffer: LuaString, size: number | null, chunkname: LuaString): number;
+        luaL_ref(L: LuaState, table: number): number;
+    };
+
+    export const lualib: {
+        luaL_openlibs(L: LuaState): void;
+    };
+}
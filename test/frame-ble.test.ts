@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { FrameFileError, FrameLuaError } from '../src/errors';
+import { FrameBle } from '../src/frame-ble';
+import { FrameManager } from '../src/frame-manager';
+import { createConsoleLogger } from '../src/logger';
+import { SimulatedFrameTransport } from '../src/simulated-frame-transport';
+
+// These tests run FrameBle against the scripted responders of SimulatedFrameTransport.
+describe("FrameBle with SimulatedFrameTransport", () => {
+    let frameBle: FrameBle;
+    let sim: SimulatedFrameTransport;
+
+    const connect = async (options: ConstructorParameters<typeof SimulatedFrameTransport>[0] = {}) => {
+        sim = new SimulatedFrameTransport(options);
+        frameBle = new FrameBle({ transport: sim, logger: createConsoleLogger('silent') });
+        await frameBle.connect();
+        return frameBle;
+    };
+
+    afterEach(async () => {
+        await frameBle?.disconnect();
+    });
+
+    describe("evalLua", () => {
+        it("returns the lines printed by each statement", async () => {
+            await connect();
+            expect(await frameBle.evalLua("print('a')\nprint(2)\nprint(frame.battery_level())")).toBe("a\n2\n100");
+        });
+
+        it("raises FrameLuaError for error()", async () => {
+            await connect();
+            const error = await frameBle.evalLua("print('before')\nerror('boom')").catch(e => e);
+            expect(error).toBeInstanceOf(FrameLuaError);
+            expect(error.luaMessage).toContain("boom");
+        });
+    });
+
+    describe("call", () => {
+        it("calls functions defined with defineLuaFunction", async () => {
+            await connect();
+            sim.defineLuaFunction("add", (a, b) => (a as number) + (b as number));
+            sim.defineLuaFunction("fail", () => { throw new Error("nope"); });
+            expect(await frameBle.call("add", [2, 3])).toBe(5);
+            await expect(frameBle.call("fail")).rejects.toBeInstanceOf(FrameLuaError);
+        });
+    });
+
+    describe("files", () => {
+        it("uploads files and raises FrameFileError for missing ones", async () => {
+            await connect();
+            await frameBle.uploadFileFromString("print('hi')", "main.lua");
+            expect(new TextDecoder().decode(sim.files.get("main.lua"))).toBe("print('hi')");
+            const error = await frameBle.readFile("missing.lua").catch(e => e);
+            expect(error).toBeInstanceOf(FrameFileError);
+            expect(error.path).toBe("missing.lua");
+        });
+    });
+
+    describe("messages", () => {
+        it("reassembles messages for tracked codes only", async () => {
+            await connect();
+            const errors: Error[] = [];
+            frameBle.on('error', error => { errors.push(error); });
+            const received = frameBle.receiveMessage(0x20);
+            sim.emitData(new Uint8Array([0x20, 0x00, 0x04, 1, 2]));
+            sim.emitData(new Uint8Array([0x20, 3, 4]));
+            sim.emitData(new Uint8Array([0x30]));
+            expect(await received).toEqual(new Uint8Array([1, 2, 3, 4]));
+            expect(errors).toEqual([]);
+        });
+
+        it("streams messages for a code while the stream is open", async () => {
+            await connect();
+            const stream = frameBle.messages(0x21);
+            sim.emitData(new Uint8Array([0x21, 0x00, 0x01, 9]));
+            expect((await stream.next()).value).toEqual({ msgCode: 0x21, payload: new Uint8Array([9]) });
+            await stream.return?.();
+        });
+
+        it("doesn't treat replies consumed by a command as messages", async () => {
+            await connect();
+            const errors: Error[] = [];
+            frameBle.on('error', error => { errors.push(error); });
+            frameBle.on('message', () => {});
+            const data = Uint8Array.from({ length: 600 }, (_, i) => i & 0xFF);
+            await frameBle.uploadFileFromBytes(data, "data.bin");
+            expect(sim.files.get("data.bin")).toEqual(data);
+            expect(errors).toEqual([]);
+        });
+    });
+});
+
+describe("FrameManager with SimulatedFrameTransport", () => {
+    it("passes upload and message options to each device", async () => {
+        const manager = new FrameManager({ logger: createConsoleLogger('silent') });
+        const sim = new SimulatedFrameTransport();
+        sim.setDataReceiver((_data, device) => device.emitData(new Uint8Array([1])));
+        const frameBle = new FrameBle({ transport: sim, logger: createConsoleLogger('silent') });
+        await frameBle.connect();
+        const id = manager.add(frameBle, { id: "left" });
+
+        const uploadProgress: string[] = [];
+        await manager.uploadFile("print( 'hi' )", "main.lua", {
+            minify: true,
+            onProgress: (deviceId, bytesSent, totalBytes) => uploadProgress.push(`${deviceId}:${bytesSent}/${totalBytes}`),
+        });
+        expect(new TextDecoder().decode(sim.files.get("main.lua"))).toBe("print('hi')");
+        expect(uploadProgress.at(-1)).toBe(`${id}:11/11`);
+
+        const messageProgress: string[] = [];
+        const result = await manager.sendMessage(0x20, new Uint8Array(10), {
+            onProgress: (deviceId, bytesSent, totalBytes) => messageProgress.push(`${deviceId}:${bytesSent}/${totalBytes}`),
+        });
+        expect(result.failures.size).toBe(0);
+        expect(messageProgress.at(-1)).toBe(`${id}:10/10`);
+
+        const controller = new AbortController();
+        controller.abort();
+        const aborted = await manager.sendMessage(0x20, new Uint8Array(10), { signal: controller.signal });
+        expect(aborted.failures.get(id)).toBeDefined();
+        await manager.disconnectAll();
+    });
+});
@@ -0,0 +1,260 @@
+import { lauxlib, lua, lualib, to_luastring } from 'fengari';
+import { FrameBle } from '../src/frame-ble';
+import { createConsoleLogger } from '../src/logger';
+import { SimulatedFrameTransport } from '../src/simulated-frame-transport';
+
+/**
+ * Options for a `LuaDevice`.
+ */
+export interface LuaDeviceOptions {
+    /** The payload size reported by `frame.bluetooth.max_length()`. Defaults to 240. */
+    maxLength?: number;
+    /** The JPEG returned by the camera. */
+    cameraImage?: Uint8Array;
+    /** The chunks of samples returned by `frame.microphone.read` before it returns nil, as a break signal would. */
+    microphoneChunks?: Uint8Array[];
+}
+
+/**
+ * A simulated Frame that runs every Lua chunk it receives in a real Lua 5.3 interpreter (fengari),
+ * so the Lua that `FrameBle` installs on the device (`_rpc`, `_evr`, `_ub`, `_cam`, `_mic`, `_evt`, `_repl`)
+ * runs as it would on the glasses.
+ *
+ * The `frame` API is a small in-memory stand-in: `frame.bluetooth` sends and receives through the transport,
+ * `frame.file` works on `files`, the camera returns `cameraImage`, the microphone returns `microphoneChunks`
+ * and the IMU reports fixed values. Errors are printed with their location, as the device does.
+ */
+export class LuaDevice {
+    /** The transport to connect `frameBle` through. */
+    public readonly transport: SimulatedFrameTransport;
+    /** A `FrameBle` for the device, not yet connected. */
+    public readonly frameBle: FrameBle;
+    /** The files on the device, keyed by path without a leading "/". */
+    public readonly files = new Map<string, Uint8Array>();
+
+    private readonly L = lauxlib.luaL_newstate();
+    private readonly maxLength: number;
+    private readonly cameraImage: Uint8Array;
+    private readonly microphoneChunks: Uint8Array[];
+    private tapCallback?: number;
+
+    constructor(options: LuaDeviceOptions = {}) {
+        this.maxLength = options.maxLength ?? 240;
+        this.cameraImage = options.cameraImage ?? new Uint8Array([0xFF, 0xD8, ...new Array(600).fill(0x42), 0xFF, 0xD9]);
+        this.microphoneChunks = options.microphoneChunks ?? [];
+        this.transport = new SimulatedFrameTransport({
+            maxLength: this.maxLength,
+            responders: [{ pattern: /^[\s\S]*$/, respond: (match) => this.run(match[0]) }],
+        });
+        this.frameBle = new FrameBle({ transport: this.transport, logger: createConsoleLogger('silent') });
+
+        lualib.luaL_openlibs(this.L);
+        if (lauxlib.luaL_loadbuffer(this.L, to_luastring(FRAME_API_LUA), null, to_luastring("=frame")) !== lua.LUA_OK) {
+            throw new Error(lua.lua_tojsstring(this.L, -1));
+        }
+        this.pushHost();
+        if (lua.lua_pcall(this.L, 1, 0, 0) !== lua.LUA_OK) {
+            throw new Error(lua.lua_tojsstring(this.L, -1));
+        }
+    }
+
+    /**
+     * Taps the glasses: calls the tap callback, if one is set.
+     */
+    public tap(): void {
+        if (this.tapCallback === undefined) return;
+        lua.lua_rawgeti(this.L, lua.LUA_REGISTRYINDEX, this.tapCallback);
+        this.call(0);
+    }
+
+    /**
+     * Runs a chunk the way the device runs the Lua it receives, printing any error.
+     */
+    private run(chunk: string): void {
+        if (lauxlib.luaL_loadbuffer(this.L, to_luastring(chunk), null, to_luastring(chunk)) !== lua.LUA_OK) {
+            this.printError();
+            return;
+        }
+        this.call(0);
+    }
+
+    /**
+     * Calls the function below its `args` arguments on the stack, printing any error.
+     */
+    private call(args: number): void {
+        if (lua.lua_pcall(this.L, args, 0, 0) !== lua.LUA_OK) this.printError();
+    }
+
+    private printError(): void {
+        this.transport.emitPrint(lua.lua_tojsstring(this.L, -1));
+        lua.lua_pop(this.L, 1);
+    }
+
+    /**
+     * Pushes the table of host functions that `FRAME_API_LUA` builds the `frame` API on.
+     */
+    private pushHost(): void {
+        const L = this.L;
+        const bytes = (index: number) => new Uint8Array(lua.lua_tolstring(L, index));
+        const path = (index: number) => lua.lua_tojsstring(L, index).replace(/^\/+/, "");
+        const functions: Record<string, () => number> = {
+            print: () => {
+                this.transport.emitPrint(lua.lua_tojsstring(L, 1));
+                return 0;
+            },
+            send: () => {
+                this.transport.emitData(bytes(1));
+                return 0;
+            },
+            receive: () => {
+                if (lua.lua_isnil(L, 1)) {
+                    this.transport.setDataReceiver(undefined);
+                    return 0;
+                }
+                lua.lua_pushvalue(L, 1);
+                const callback = lauxlib.luaL_ref(L, lua.LUA_REGISTRYINDEX);
+                this.transport.setDataReceiver(data => {
+                    lua.lua_rawgeti(L, lua.LUA_REGISTRYINDEX, callback);
+                    lua.lua_pushlstring(L, data.slice(), data.byteLength);
+                    this.call(1);
+                });
+                return 0;
+            },
+            tap: () => {
+                if (lua.lua_isnil(L, 1)) {
+                    this.tapCallback = undefined;
+                } else {
+                    lua.lua_pushvalue(L, 1);
+                    this.tapCallback = lauxlib.luaL_ref(L, lua.LUA_REGISTRYINDEX);
+                }
+                return 0;
+            },
+            read: () => {
+                const content = this.files.get(path(1));
+                if (content) lua.lua_pushlstring(L, content.slice(), content.byteLength);
+                else lua.lua_pushnil(L);
+                return 1;
+            },
+            write: () => {
+                this.files.set(path(1), bytes(2));
+                return 0;
+            },
+            remove: () => {
+                lua.lua_pushboolean(L, this.files.delete(path(1)));
+                return 1;
+            },
+            list: () => {
+                const prefix = path(1).replace(/\/*$/, "/").replace(/^\/$/, "");
+                const entries = [...this.files]
+                    .filter(([name]) => name.startsWith(prefix) && !name.substring(prefix.length).includes("/"))
+                    .map(([name, content]) => `${name.substring(prefix.length)}\t${content.byteLength}`);
+                lua.lua_pushstring(L, to_luastring(entries.join("\n")));
+                return 1;
+            },
+            image: () => {
+                lua.lua_pushlstring(L, this.cameraImage.slice(), this.cameraImage.byteLength);
+                return 1;
+            },
+            microphone: () => {
+                const chunk = this.microphoneChunks.shift();
+                if (chunk) lua.lua_pushlstring(L, chunk.slice(), chunk.byteLength);
+                else lua.lua_pushnil(L);
+                return 1;
+            },
+        };
+        lua.lua_newtable(L);
+        for (const [name, fn] of Object.entries(functions)) {
+            lua.lua_pushjsfunction(L, fn);
+            lua.lua_setfield(L, -2, to_luastring(name));
+        }
+        lua.lua_pushinteger(L, this.maxLength);
+        lua.lua_setfield(L, -2, to_luastring("max_length"));
+    }
+}
+
+/**
+ * The stand-in for the device's `print` and `frame` API, run with the table of host functions.
+ */
+const FRAME_API_LUA = `local host=...
+function print(...)
+    local t={}
+    for i=1,select('#',...) do t[i]=tostring((select(i,...))) end
+    host.print(table.concat(t,'\\t'))
+end
+frame={FIRMWARE_VERSION='v25.080.0838'}
+function frame.sleep() end
+function frame.stay_awake() end
+function frame.battery_level() return 100 end
+frame.bluetooth={}
+function frame.bluetooth.max_length() return host.max_length end
+function frame.bluetooth.send(s)
+    if #s>host.max_length then error('payload too large') end
+    host.send(s)
+end
+function frame.bluetooth.receive_callback(f) host.receive(f) end
+local directories={}
+frame.file={}
+function frame.file.open(path,mode)
+    if mode=='r' then
+        local s=host.read(path)
+        if s==nil then error(path..': no such file') end
+        local pos=1
+        return {
+            read=function(_,n)
+                if pos>#s then return nil end
+                local part=s:sub(pos,pos+(n or #s)-1)
+                pos=pos+#part
+                return part
+            end,
+            close=function() end,
+        }
+    end
+    local parts={}
+    host.write(path,'')
+    return {
+        write=function(_,s) parts[#parts+1]=s end,
+        close=function() host.write(path,table.concat(parts)) end,
+    }
+end
+function frame.file.remove(path)
+    if not host.remove(path) then error(path..': no such file') end
+end
+function frame.file.rename(from,to)
+    local s=host.read(from)
+    if s==nil then error(from..': no such file') end
+    host.remove(from)
+    host.write(to,s)
+end
+function frame.file.mkdir(path)
+    if directories[path] then error(path..': already exists') end
+    directories[path]=true
+end
+function frame.file.listdir(path)
+    local l={{name='.',size=0,type=2},{name='..',size=0,type=2}}
+    for name,size in host.list(path):gmatch('([^\\t\\n]+)\\t(%d+)') do
+        l[#l+1]={name=name,size=tonumber(size),type=1}
+    end
+    return l
+end
+local image,pos
+frame.camera={}
+function frame.camera.auto() end
+function frame.camera.sleep() end
+function frame.camera.wake() end
+function frame.camera.capture() image=host.image() pos=1 end
+function frame.camera.image_ready() return image~=nil end
+function frame.camera.read(n)
+    if pos>#image then return nil end
+    local part=image:sub(pos,pos+n-1)
+    pos=pos+#part
+    return part
+end
+frame.microphone={}
+function frame.microphone.start() end
+function frame.microphone.stop() end
+function frame.microphone.read() return host.microphone() end
+frame.imu={}
+function frame.imu.tap_callback(f) host.tap(f) end
+function frame.imu.direction() return {roll=1.5,pitch=-2,heading=90} end
+function frame.imu.raw() return {accelerometer={x=1,y=2,z=4096},compass={x=-3,y=4,z=5}} end
+`;
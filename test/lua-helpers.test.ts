@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { FrameFileError, FrameLuaError } from '../src/errors';
+import { LuaRepl, ReplOutput } from '../src/lua-repl';
+import { LuaDevice } from './lua-device';
+
+// These tests run the Lua that FrameBle installs on the device in a real Lua interpreter.
+describe("device-side Lua helpers", () => {
+    let device: LuaDevice;
+
+    const connect = async (options: ConstructorParameters<typeof LuaDevice>[0] = {}) => {
+        device = new LuaDevice(options);
+        await device.frameBle.connect();
+        return device.frameBle;
+    };
+
+    afterEach(async () => {
+        await device?.frameBle.disconnect();
+    });
+
+    describe("evalLua (_evb, _evr, _evp)", () => {
+        it("returns the lines printed by a snippet", async () => {
+            const frameBle = await connect();
+            expect(await frameBle.evalLua("print('a')\nprint(1, true)\nfor i=1,2 do print(i*i) end")).toBe("a\n1\ttrue\n1\n4");
+        });
+
+        it("returns output longer than one packet, split on character boundaries", async () => {
+            const frameBle = await connect({ maxLength: 64 });
+            const output = await frameBle.evalLua("for i=1,40 do print(i..' héllo ✓') end");
+            expect(output.split("\n")).toEqual(Array.from({ length: 40 }, (_, i) => `${i + 1} héllo ✓`));
+        });
+
+        it("evaluates snippets longer than one packet", async () => {
+            const frameBle = await connect({ maxLength: 64 });
+            const snippet = Array.from({ length: 30 }, (_, i) => `local v${i}=${i}`).join("\n") + "\nprint(v29+v1)";
+            expect(await frameBle.evalLua(snippet)).toBe("30");
+        });
+
+        it("raises FrameLuaError with the line of a runtime error", async () => {
+            const frameBle = await connect();
+            const error = await frameBle.evalLua("local x=1\nerror('boom')").catch(e => e);
+            expect(error).toBeInstanceOf(FrameLuaError);
+            expect(error.luaMessage).toBe("eval:2: boom");
+            expect(error.line).toBe(2);
+        });
+
+        it("raises FrameLuaError for a syntax error", async () => {
+            const frameBle = await connect();
+            await expect(frameBle.evalLua("local = 1")).rejects.toBeInstanceOf(FrameLuaError);
+        });
+    });
+
+    describe("call (_rpc)", () => {
+        it("passes arguments and returns values", async () => {
+            const frameBle = await connect();
+            await frameBle.sendLua("function add(a,b) return a+b end\nfunction sum(t) local s=0 for _,v in ipairs(t.values) do s=s+v end return {name=t.name, sum=s} end");
+            expect(await frameBle.call("add", [2, 3])).toBe(5);
+            expect(await frameBle.call("sum", [{ name: "x", values: [1, 2, 3] }])).toEqual({ name: "x", sum: 6 });
+            expect(await frameBle.call("string.upper", ["héllo"])).toBe("HéLLO");
+        });
+
+        it("returns replies longer than one packet", async () => {
+            const frameBle = await connect({ maxLength: 64 });
+            const text = "ü✓".repeat(100);
+            expect(await frameBle.call("string.rep", ["ü✓", 100])).toBe(text);
+        });
+
+        it("sends calls longer than one packet through evalLua", async () => {
+            const frameBle = await connect({ maxLength: 64 });
+            const text = "x".repeat(300);
+            expect(await frameBle.call("string.len", [text])).toBe(300);
+        });
+
+        it("raises FrameLuaError with non-ASCII error messages longer than one packet", async () => {
+            const frameBle = await connect({ maxLength: 64 });
+            await frameBle.sendLua("function fail() error(string.rep('échec ', 30), 0) end");
+            const error = await frameBle.call("fail").then(() => undefined, (e: FrameLuaError) => e);
+            expect(error).toBeInstanceOf(FrameLuaError);
+            expect(error?.luaMessage).toBe("échec ".repeat(30));
+        });
+    });
+
+    describe("files (_ub)", () => {
+        it("uploads bytes in acknowledged chunks and verifies them", async () => {
+            const frameBle = await connect();
+            const data = Uint8Array.from({ length: 1000 }, (_, i) => (i * 7) & 0xFF);
+            await frameBle.uploadFileFromBytes(data, "/data.bin");
+            expect(device.files.get("data.bin")).toEqual(data);
+            expect(await frameBle.readFile("data.bin")).toEqual(data);
+        });
+
+        it("uploads text, lists, renames and deletes files", async () => {
+            const frameBle = await connect();
+            await frameBle.uploadFileFromString("print('hi \"there\"')\n", "app.lua");
+            expect(new TextDecoder().decode(device.files.get("app.lua"))).toBe("print('hi \"there\"')\n");
+            await frameBle.renameFile("app.lua", "main.lua");
+            expect(await frameBle.listDirectory("/")).toEqual([{ name: "main.lua", size: 20, isDirectory: false }]);
+            await frameBle.deleteFile("main.lua");
+            expect(device.files.size).toBe(0);
+            await expect(frameBle.deleteFile("main.lua")).rejects.toBeInstanceOf(FrameFileError);
+            await expect(frameBle.readFile("main.lua")).rejects.toBeInstanceOf(FrameFileError);
+        });
+    });
+
+    describe("camera (_cam)", () => {
+        it("captures the image in packets", async () => {
+            const cameraImage = Uint8Array.from({ length: 1500 }, (_, i) => i & 0x7F);
+            cameraImage.set([0xFF, 0xD8], 0);
+            cameraImage.set([0xFF, 0xD9], cameraImage.byteLength - 2);
+            const frameBle = await connect({ cameraImage });
+            expect(await frameBle.captureImage({ autoExposure: false })).toEqual(cameraImage);
+        });
+    });
+
+    describe("microphone (_mic)", () => {
+        it("streams samples until the microphone stops", async () => {
+            const frameBle = await connect({ microphoneChunks: [new Uint8Array([1, 0, 2, 0]), new Uint8Array([0xFF, 0xFF])] });
+            const frames: number[] = [];
+            for await (const samples of await frameBle.startAudio()) frames.push(...samples);
+            expect(frames).toEqual([1, 2, -1]);
+        });
+    });
+
+    describe("events (_evt)", () => {
+        it("reports taps", async () => {
+            const frameBle = await connect();
+            const taps: number[] = [];
+            const unsubscribe = await frameBle.onTap(event => taps.push(event.count));
+            device.tap();
+            device.tap();
+            await new Promise(resolve => setTimeout(resolve, 400));
+            expect(taps).toEqual([2]);
+            await unsubscribe();
+        });
+
+        it("streams IMU readings", async () => {
+            const frameBle = await connect();
+            const readings = frameBle.streamImu({ intervalMs: 10 });
+            const { value } = await readings.next();
+            await readings.return?.();
+            expect(value).toMatchObject({
+                roll: 1.5, pitch: -2, heading: 90,
+                accelerometer: { x: 1, y: 2, z: 4096 },
+                compass: { x: -3, y: 4, z: 5 },
+            });
+        });
+    });
+
+    describe("LuaRepl (_repl)", () => {
+        it("runs chunks, prints expression values and reports errors and incomplete chunks", async () => {
+            const frameBle = await connect();
+            const repl = new LuaRepl(frameBle);
+            const output: ReplOutput[] = [];
+            repl.on('output', entry => { output.push(entry); });
+
+            expect(await repl.submit("x = 6")).toBe('ok');
+            expect(await repl.submit("x * 7")).toBe('ok');
+            expect(await repl.submit("for i=1,2 do")).toBe('incomplete');
+            expect(await repl.submit("print('line', i) end")).toBe('ok');
+            expect(await repl.submit("error('oops')")).toBe('error');
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            const shown = output.filter(entry => entry.kind !== 'input').map(entry => `${entry.kind}:${entry.text}`);
+            expect(shown).toEqual(["print:42", "print:line\t1", "print:line\t2", "error:stdin:1: oops"]);
+            expect((await repl.complete("frame.file.re")).candidates).toEqual(["remove", "rename"]);
+            repl.close();
+        });
+    });
+});